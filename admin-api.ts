@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getIoInstance } from '@/lib/socket-instance';
+import {
+  getRoomStore,
+  listRoomsStore,
+  forceEndGameStore,
+  closeRoomStore,
+  getStoreStatsStore,
+  emitRoomStateToRoom
+} from '@/lib/server/game-store';
+import { createLogger } from '@/lib/server/logger';
+import { renderPrometheusMetrics, getNumberCallsPerSecond } from '@/lib/server/metrics';
+import type { GaugeSample } from '@/lib/server/metrics';
+
+// Operator endpoints, served from the custom Node server before requests reach Next.js:
+//
+//   if (handleAdminRequest(req, res)) return;
+//
+// Every route needs `Authorization: Bearer <HOUSIE_ADMIN_TOKEN>`. Without that variable the
+// admin API is disabled and every route answers 404.
+//
+//   GET    /metrics                       Prometheus text format
+//   GET    /admin/rooms                   Summary of every room
+//   GET    /admin/rooms/:roomId           Full server-side room, including numberPool and seeds
+//   POST   /admin/rooms/:roomId/end       Force-end the running game
+//   DELETE /admin/rooms/:roomId           Close and delete the room
+
+const log = createLogger('admin-api');
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage, adminToken: string): boolean {
+  const header = req.headers.authorization || '';
+  const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+  const expected = Buffer.from(adminToken);
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+}
+
+function collectGauges(): GaugeSample[] {
+  const stats = getStoreStatsStore();
+  const io = getIoInstance();
+  return [
+    ...Object.entries(stats.roomsByPhase).map(([phase, value]) => ({ name: 'active_rooms', help: 'Rooms currently held, by phase.', value, labels: { phase } })),
+    { name: 'connected_sockets', help: 'Open Socket.IO connections.', value: io ? io.of('/').sockets.size : 0 },
+    { name: 'identified_sockets', help: 'Sockets bound to a player or spectator in a room.', value: stats.identifiedSockets },
+    { name: 'number_calls_per_second', help: 'Numbers called per second over the last minute.', value: getNumberCallsPerSecond() },
+    { name: 'call_timers', help: 'Rooms with an active auto-calling timer.', value: stats.callTimers },
+    { name: 'grace_timers', help: 'Disconnected players within their reconnection grace period.', value: stats.graceTimers },
+  ];
+}
+
+// Broadcasts the room's new state after an administrative change, if anyone is connected.
+function notifyRoom(roomId: string) {
+  const io = getIoInstance();
+  if (!io) return;
+  emitRoomStateToRoom(io, roomId, 'roomUpdate');
+  emitRoomStateToRoom(io, roomId, 'gameOver');
+}
+
+// Returns true when the request was an admin route and has been answered.
+export function handleAdminRequest(req: IncomingMessage, res: ServerResponse): boolean {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  if (pathname !== '/metrics' && pathname !== '/admin' && !pathname.startsWith('/admin/')) return false;
+
+  const adminToken = process.env.HOUSIE_ADMIN_TOKEN;
+  if (!adminToken) {
+    sendJson(res, 404, { error: "Not found." });
+    return true;
+  }
+  if (!isAuthorized(req, adminToken)) {
+    log.warn('Rejected unauthorized admin request.', { method: req.method, path: pathname });
+    sendJson(res, 401, { error: "Unauthorized." });
+    return true;
+  }
+
+  if (pathname === '/metrics' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+    res.end(renderPrometheusMetrics(collectGauges()));
+    return true;
+  }
+
+  if (pathname === '/admin/rooms' && req.method === 'GET') {
+    sendJson(res, 200, {
+      rooms: listRoomsStore().map(room => ({
+        id: room.id,
+        hostId: room.host.id,
+        createdAt: room.createdAt,
+        isGameStarted: room.isGameStarted,
+        isGameOver: room.isGameOver,
+        round: room.session?.round || 1,
+        players: room.players.length,
+        onlinePlayers: room.players.filter(p => p.isOnline).length,
+        spectators: room.spectators?.length || 0,
+        calledCount: room.calledNumbers.length,
+        pot: room.pot || 0,
+      })),
+    });
+    return true;
+  }
+
+  const match = pathname.match(/^\/admin\/rooms\/([^/]+)(\/end)?$/);
+  if (!match) {
+    sendJson(res, 404, { error: "Not found." });
+    return true;
+  }
+  let roomId: string;
+  try {
+    roomId = decodeURIComponent(match[1]);
+  } catch {
+    sendJson(res, 400, { error: "Malformed room id." });
+    return true;
+  }
+  const isEndRoute = !!match[2];
+
+  if (!isEndRoute && req.method === 'GET') {
+    const room = getRoomStore(roomId);
+    if (room) sendJson(res, 200, room);
+    else sendJson(res, 404, { error: "Room not found." });
+    return true;
+  }
+
+  if (isEndRoute && req.method === 'POST') {
+    const result = forceEndGameStore(roomId, "Ended by an administrator.");
+    if ('error' in result) {
+      sendJson(res, result.error === "Room not found." ? 404 : 409, { error: result.error });
+    } else {
+      notifyRoom(roomId);
+      sendJson(res, 200, { ended: true, settlement: result.settlement });
+    }
+    return true;
+  }
+
+  if (!isEndRoute && req.method === 'DELETE') {
+    if (closeRoomStore(roomId, "Deleted by an administrator.")) {
+      sendJson(res, 200, { deleted: true });
+    } else {
+      sendJson(res, 404, { error: "Room not found." });
+    }
+    return true;
+  }
+
+  sendJson(res, 405, { error: "Method not allowed." });
+  return true;
+}
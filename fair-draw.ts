@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import type { HousieTicketGrid } from '@/types';
+
+// Commit-reveal draws. A secret server seed is committed (SHA-256) when the room is created
+// and revealed at game over. Tickets are derived from the server seed; the call order is
+// derived from the server seed mixed with any entropy players contributed before the start,
+// so neither the server nor any single player can steer the draw.
+
+export interface EntropyContribution {
+  playerId: string;
+  entropy: string;
+}
+
+export interface SeededRandom {
+  randomInt(maxExclusive: number): number;
+}
+
+export const FAIR_DRAW_ALGORITHM =
+  'rng(seed, label): uint32 stream from HMAC-SHA256(key=seed, msg=`${label}:${counter}`), counter from 0, ints via rejection sampling; ' +
+  'drawSeed = SHA-256(serverSeed + "|" + sorted(playerId + ":" + entropy).join("|")); ' +
+  'draw: Fisher-Yates over [min..max] with rng(drawSeed, "draw"), numbers are called from the end of the shuffled pool; ' +
+  'tickets: generateSeededTicket(rng(serverSeed, `ticket:${playerId}:${ticketIndex}`)).';
+
+export function createServerSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function commitToSeed(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex');
+}
+
+export function deriveDrawSeed(serverSeed: string, contributions: EntropyContribution[]): string {
+  const mixed = contributions
+    .map(c => `${c.playerId}:${c.entropy}`)
+    .sort()
+    .join('|');
+  return crypto.createHash('sha256').update(`${serverSeed}|${mixed}`).digest('hex');
+}
+
+export function createSeededRandom(seed: string, label: string): SeededRandom {
+  let counter = 0;
+  let block: Buffer = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = (): number => {
+    if (offset + 4 > block.length) {
+      block = crypto.createHmac('sha256', seed).update(`${label}:${counter++}`).digest();
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  return {
+    randomInt(maxExclusive: number): number {
+      const limit = Math.floor(0x100000000 / maxExclusive) * maxExclusive; // Reject the biased tail
+      let value = nextUint32();
+      while (value >= limit) value = nextUint32();
+      return value % maxExclusive;
+    },
+  };
+}
+
+export function shuffleNumberPool(min: number, max: number, rng: SeededRandom): number[] {
+  const pool = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = rng.randomInt(i + 1);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool;
+}
+
+// Standard 3x9 ticket: 15 numbers, 5 per row, 1-3 per column, column c holding 1-9, 10-19 ... 80-90,
+// sorted top to bottom within a column.
+export function generateSeededTicket(rng: SeededRandom): HousieTicketGrid {
+  const columnCounts = Array.from({ length: 9 }, () => 1);
+  for (let extra = 0; extra < 6; extra++) {
+    const openColumns = columnCounts.map((count, col) => (count < 3 ? col : -1)).filter(col => col !== -1);
+    columnCounts[openColumns[rng.randomInt(openColumns.length)]]++;
+  }
+
+  // Fill the fullest columns first, each into the rows with the most room left (ties broken randomly).
+  const grid: (number | null)[][] = Array.from({ length: 3 }, () => Array.from({ length: 9 }, () => null));
+  const rowCapacity = [5, 5, 5];
+  const columnOrder = columnCounts
+    .map((count, col) => ({ col, count, tieBreak: rng.randomInt(1000) }))
+    .sort((a, b) => b.count - a.count || a.tieBreak - b.tieBreak);
+
+  for (const { col, count } of columnOrder) {
+    const rows = [0, 1, 2]
+      .map(row => ({ row, tieBreak: rng.randomInt(1000) }))
+      .sort((a, b) => rowCapacity[b.row] - rowCapacity[a.row] || a.tieBreak - b.tieBreak)
+      .slice(0, count)
+      .map(r => r.row)
+      .sort((a, b) => a - b);
+
+    const low = col === 0 ? 1 : col * 10;
+    const high = col === 8 ? 90 : col * 10 + 9;
+    const candidates = Array.from({ length: high - low + 1 }, (_, i) => low + i);
+    const picked: number[] = [];
+    for (let i = 0; i < count; i++) {
+      picked.push(candidates.splice(rng.randomInt(candidates.length), 1)[0]);
+    }
+    picked.sort((a, b) => a - b);
+    rows.forEach((row, i) => {
+      grid[row][col] = picked[i];
+      rowCapacity[row]--;
+    });
+  }
+  return grid as unknown as HousieTicketGrid;
+}
+
+export function generateTicketForSeed(serverSeed: string, playerId: string, ticketIndex: number): HousieTicketGrid {
+  return generateSeededTicket(createSeededRandom(serverSeed, `ticket:${playerId}:${ticketIndex}`));
+}
+
+export function drawOrderForSeed(drawSeed: string, min: number, max: number): number[] {
+  return shuffleNumberPool(min, max, createSeededRandom(drawSeed, 'draw')).reverse(); // Calls pop from the end
+}
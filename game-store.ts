@@ -1,24 +1,291 @@
 
-import type { Room, Player, GameSettings, BackendPlayerInRoom, PrizeType, PrizeClaim, HousieTicketGrid } from '@/types';
+import crypto from 'crypto';
+import type { Player, PrizeType, HousieTicketGrid } from '@/types';
 import { PRIZE_TYPES } from '@/types';
 import { generateImprovedHousieTicket } from '@/lib/housie';
 import { NUMBERS_RANGE_MIN, NUMBERS_RANGE_MAX, DEFAULT_GAME_SETTINGS, MIN_LOBBY_SIZE, PRIZE_DEFINITIONS, DEFAULT_NUMBER_OF_TICKETS_PER_PLAYER } from '@/lib/constants';
 import { getIoInstance } from '@/lib/socket-instance';
+import type { Server as SocketIOServer } from 'socket.io';
+import type { ServerRoom, ServerPlayerInRoom, ServerGameSettings, ServerPrizeClaim, PrizeKey, ClaimRules, PlayerBogeyRecord, BogeyEvent, AutoClaimAward, AuditBundle, SocketSession, PlayerIdentity, CallMode, ClientRoomState, ClientPlayerState, ClientPrizeClaim } from '@/lib/server/server-types';
+import { getRoomRepository } from '@/lib/server/room-repository';
+import { issueSessionToken, getSocketIdentity } from '@/lib/server/session-auth';
+import { computeSettlement, resolvePrizeAllocation } from '@/lib/server/payouts';
+import { matchesPrizePattern, getPatternProgress, validateCustomPrizes, BUILTIN_PRIZE_PATTERNS } from '@/lib/server/prize-patterns';
+import type { CustomPrizeDefinition } from '@/lib/server/prize-patterns';
+import { appendRoomEvent, reconstructRoomStateFromLog } from '@/lib/server/room-events';
+import type { RoomEvent, RoomEventPayloads, ReconstructedRoomState } from '@/lib/server/room-events';
+import { archiveRound, computeLeaderboard } from '@/lib/server/room-session';
+import { MAX_TICKETS_PER_PLAYER_LIMIT } from '@/lib/server/socket-validation';
+import { appendChatMessage, sanitizeChatText, ALLOWED_REACTIONS } from '@/lib/server/room-chat';
+import type { ChatMessage } from '@/lib/server/room-chat';
+import { createLogger } from '@/lib/server/logger';
+import { incrementCounter, recordNumberCall } from '@/lib/server/metrics';
+import { getRoomLifecycleConfig, getRoomExpiryReason } from '@/lib/server/room-lifecycle';
+import { createServerSeed, commitToSeed, deriveDrawSeed, createSeededRandom, shuffleNumberPool, generateTicketForSeed, drawOrderForSeed, FAIR_DRAW_ALGORITHM } from '@/lib/server/fair-draw';
 
 declare global {
   // eslint-disable-next-line no-var
-  var housieRooms: Map<string, Room>;
+  var housieRooms: Map<string, ServerRoom>;
   // eslint-disable-next-line no-var
   var roomCallTimers: Map<string, NodeJS.Timeout>; // Changed name for clarity
+  // eslint-disable-next-line no-var
+  var housieSocketSessions: Map<string, SocketSession>; // socket.id -> room/player it represents
+  // eslint-disable-next-line no-var
+  var playerGraceTimers: Map<string, NodeJS.Timeout>; // `${roomId}:${playerId}` -> reconnection grace timer
+  // eslint-disable-next-line no-var
+  var housieRoomSweeper: NodeJS.Timeout | undefined;
 }
 
-const rooms = global.housieRooms || (global.housieRooms = new Map<string, Room>());
+const rooms = getRoomRepository();
+const log = createLogger('game-store');
 const roomCallTimers = global.roomCallTimers || (global.roomCallTimers = new Map<string, NodeJS.Timeout>());
+const socketSessions = global.housieSocketSessions || (global.housieSocketSessions = new Map<string, SocketSession>());
+const playerGraceTimers = global.playerGraceTimers || (global.playerGraceTimers = new Map<string, NodeJS.Timeout>());
 
-const SERVER_CALL_INTERVAL = 5000; // 5 seconds for number calling
+const SERVER_CALL_INTERVAL = 5000; // Default of 5 seconds for number calling
+const MIN_CALL_INTERVAL = 2000;
+const MAX_CALL_INTERVAL = 60000;
+const MAX_ENTROPY_LENGTH = 128;
+const DEFAULT_MAX_TICKETS_PER_PLAYER = 6;
+const DEFAULT_CLAIM_RULES: ClaimRules = {
+  bogeyCooldownMs: 10000,
+  lockoutPrizeOnBogey: false,
+  cancelTicketAfterBogeys: 3,
+  enforceClaimWindow: true,
+  claimGracePeriodMs: 3000,
+};
+const RECONNECT_GRACE_PERIOD = Number(process.env.HOUSIE_RECONNECT_GRACE_MS) || 60000; // How long a disconnected player keeps their seat
+const ROOM_LIFECYCLE = getRoomLifecycleConfig();
+const ROOM_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const ROOM_ID_LENGTH = 6;
 
 function generateRoomId(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+  // Six characters give ~2 billion ids; lengthen only in the unlikely case of repeated collisions.
+  for (let attempt = 0; ; attempt++) {
+    const length = ROOM_ID_LENGTH + Math.floor(attempt / 10);
+    const roomId = Array.from({ length }, () => ROOM_ID_ALPHABET[crypto.randomInt(ROOM_ID_ALPHABET.length)]).join('');
+    if (!rooms.has(roomId)) return roomId;
+  }
+}
+
+function clampMaxTickets(value: unknown): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n) || n < 1) return DEFAULT_MAX_TICKETS_PER_PLAYER;
+  return Math.min(MAX_TICKETS_PER_PLAYER_LIMIT, n);
+}
+
+function clampCallInterval(intervalMs: unknown): number {
+  const value = Number(intervalMs);
+  if (!Number.isFinite(value)) return SERVER_CALL_INTERVAL;
+  return Math.min(MAX_CALL_INTERVAL, Math.max(MIN_CALL_INTERVAL, Math.round(value)));
+}
+
+function sanitizeClaimRules(clientRules?: Partial<ClaimRules>): ClaimRules {
+  const nonNegative = (value: unknown, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+  };
+  return {
+    bogeyCooldownMs: nonNegative(clientRules?.bogeyCooldownMs, DEFAULT_CLAIM_RULES.bogeyCooldownMs),
+    lockoutPrizeOnBogey: typeof clientRules?.lockoutPrizeOnBogey === 'boolean' ? clientRules.lockoutPrizeOnBogey : DEFAULT_CLAIM_RULES.lockoutPrizeOnBogey,
+    cancelTicketAfterBogeys: nonNegative(clientRules?.cancelTicketAfterBogeys, DEFAULT_CLAIM_RULES.cancelTicketAfterBogeys),
+    enforceClaimWindow: typeof clientRules?.enforceClaimWindow === 'boolean' ? clientRules.enforceClaimWindow : DEFAULT_CLAIM_RULES.enforceClaimWindow,
+    claimGracePeriodMs: nonNegative(clientRules?.claimGracePeriodMs, DEFAULT_CLAIM_RULES.claimGracePeriodMs),
+  };
+}
+
+function getBogeyRecord(room: ServerRoom, playerId: string): PlayerBogeyRecord {
+  room.bogeys ||= {}; // Rooms persisted before bogey tracking existed
+  return room.bogeys[playerId] ||= { count: 0, lockedPrizes: [], cancelledTickets: [] };
+}
+
+function bogeyCooldownRemaining(room: ServerRoom, record: PlayerBogeyRecord): number {
+  const cooldown = room.settings.claimRules?.bogeyCooldownMs || 0;
+  if (!cooldown || !record.lastBogeyAt) return 0;
+  return Math.max(0, new Date(record.lastBogeyAt).getTime() + cooldown - Date.now());
+}
+
+// Records a bogey and applies the room's penalties. Returns the event to broadcast.
+function recordBogey(room: ServerRoom, player: ServerPlayerInRoom, prizeType: PrizeKey, ticketIndex: number): BogeyEvent {
+  const rules = room.settings.claimRules || DEFAULT_CLAIM_RULES;
+  const record = getBogeyRecord(room, player.id);
+  record.count += 1;
+  record.lastBogeyAt = new Date();
+
+  const penalties: string[] = [];
+  if (rules.bogeyCooldownMs > 0) {
+    penalties.push(`No claims for ${Math.ceil(rules.bogeyCooldownMs / 1000)}s.`);
+  }
+  if (rules.lockoutPrizeOnBogey && !record.lockedPrizes.includes(prizeType)) {
+    record.lockedPrizes.push(prizeType);
+    penalties.push(`Locked out of ${prizeType}.`);
+  }
+  if (rules.cancelTicketAfterBogeys > 0 && record.count >= rules.cancelTicketAfterBogeys && !record.cancelledTickets.includes(ticketIndex)) {
+    record.cancelledTickets.push(ticketIndex);
+    penalties.push(`Ticket ${ticketIndex + 1} cancelled.`);
+  }
+  appendRoomEvent(room, 'bogey', { playerId: player.id, prizeType, ticketIndex, count: record.count, penalties });
+  incrementCounter('bogeys');
+  log.info(`Bogey #${record.count} on ${prizeType} (ticket ${ticketIndex + 1}).`, { roomId: room.id, playerId: player.id, prizeType, ticketIndex, penalties });
+
+  return { playerId: player.id, playerName: player.name, prizeType, ticketIndex, count: record.count, penalties };
+}
+
+function getCustomPrize(room: ServerRoom, prizeType: PrizeKey): CustomPrizeDefinition | undefined {
+  return room.settings.customPrizes?.find(p => p.id === prizeType);
+}
+
+function isGameEndingPrize(room: ServerRoom, prizeType: PrizeKey): boolean {
+  return prizeType === PRIZE_TYPES.FULL_HOUSE || !!getCustomPrize(room, prizeType)?.endsGame;
+}
+
+// Custom prizes go through the generic pattern matcher; built-in ones keep the shared housie rules.
+function isPrizeComplete(room: ServerRoom, ticket: HousieTicketGrid, calledNumbers: number[], prizeType: PrizeKey): boolean {
+  const customPrize = getCustomPrize(room, prizeType);
+  if (customPrize) return matchesPrizePattern(ticket, calledNumbers, customPrize.pattern);
+  const housieLib = require('@/lib/housie');
+  return housieLib.checkWinningCondition(ticket, calledNumbers, prizeType);
+}
+
+// Numbers this ticket still needs for the prize, or undefined when that can't be counted.
+function getNumbersRemaining(room: ServerRoom, ticket: HousieTicketGrid, prizeType: PrizeKey): number | undefined {
+  const pattern = getCustomPrize(room, prizeType)?.pattern || BUILTIN_PRIZE_PATTERNS[prizeType];
+  if (!pattern) return undefined;
+  const { remaining } = getPatternProgress(ticket, room.calledNumbers, pattern);
+  return Number.isFinite(remaining) ? remaining : undefined;
+}
+
+function isPrizeOpen(room: ServerRoom, prizeType: PrizeKey): boolean {
+  if (room.isGameOver && !isGameEndingPrize(room, prizeType)) return false;
+  const claim = room.prizeStatus[prizeType];
+  return !claim || claim.claimedBy.length === 0 || claim.winningCallIndex === room.calledNumbers.length - 1;
+}
+
+// Awards every prize completed by the latest call to every ticket that completed it, so
+// simultaneous winners share just as they would with manual claims inside the claim window.
+function runAutoClaims(room: ServerRoom): AutoClaimAward[] {
+  const latestCallIndex = room.calledNumbers.length - 1;
+  if (latestCallIndex < 0) return [];
+  const calledBeforeLatest = room.calledNumbers.slice(0, latestCallIndex);
+  const awards: AutoClaimAward[] = [];
+
+  for (const prizeType of getActivePrizes(room.settings)) {
+    if (!isPrizeOpen(room, prizeType)) continue;
+    for (const player of room.players) {
+      if (room.prizeStatus[prizeType]?.claimedBy.includes(player.id)) continue;
+      const bogeyRecord = getBogeyRecord(room, player.id);
+      if (bogeyRecord.lockedPrizes.includes(prizeType)) continue;
+
+      const ticketIndex = player.tickets.findIndex((ticket, index) =>
+        !bogeyRecord.cancelledTickets.includes(index) &&
+        isPrizeComplete(room, ticket, room.calledNumbers, prizeType) &&
+        !isPrizeComplete(room, ticket, calledBeforeLatest, prizeType));
+      if (ticketIndex === -1) continue;
+
+      recordPrizeWinner(room, prizeType, player.id, ticketIndex, latestCallIndex);
+      awards.push({ prizeType, playerId: player.id, playerName: player.name, ticketIndex, callIndex: latestCallIndex, number: room.calledNumbers[latestCallIndex] });
+      incrementCounter('claims', { outcome: 'auto' });
+      log.info(`Auto-claimed ${prizeType} (ticket ${ticketIndex + 1}).`, { roomId: room.id, playerId: player.id, prizeType, ticketIndex });
+    }
+  }
+
+  if (awards.some(award => isGameEndingPrize(room, award.prizeType))) {
+    stopRoomCallingTimer(room.id, "Game-ending prize auto-claimed.");
+    endGame(room);
+  }
+  return awards;
+}
+
+// Index into calledNumbers of the call that completed the prize on this ticket, or -1 if it is not complete.
+function findCompletionCallIndex(room: ServerRoom, ticket: HousieTicketGrid, calledNumbers: number[], prizeType: PrizeKey): number {
+  if (!isPrizeComplete(room, ticket, calledNumbers, prizeType)) return -1;
+  for (let callIndex = 0; callIndex < calledNumbers.length; callIndex++) {
+    if (isPrizeComplete(room, ticket, calledNumbers.slice(0, callIndex + 1), prizeType)) return callIndex;
+  }
+  return calledNumbers.length - 1;
+}
+
+// Enforces the claim window: a prize goes to the call that completed it. The first valid claim
+// must arrive before the next number; others completing on that same call share within the grace period.
+function checkClaimWindow(room: ServerRoom, prizeType: PrizeKey, completedAtCallIndex: number): string | undefined {
+  const rules = room.settings.claimRules || DEFAULT_CLAIM_RULES;
+  if (!rules.enforceClaimWindow) return undefined;
+
+  const existingClaim = room.prizeStatus[prizeType];
+  const completingNumber = room.calledNumbers[completedAtCallIndex];
+  if (existingClaim && existingClaim.claimedBy.length > 0 && existingClaim.winningCallIndex !== undefined) {
+    if (completedAtCallIndex !== existingClaim.winningCallIndex) {
+      return `Missed: ${prizeType} was won on number ${existingClaim.winningNumber}, but your ticket completed it on number ${completingNumber}.`;
+    }
+    const firstClaimAt = existingClaim.timestamp ? new Date(existingClaim.timestamp).getTime() : Date.now();
+    if (Date.now() - firstClaimAt > rules.claimGracePeriodMs) {
+      return `Missed: the window to share ${prizeType} closed ${Math.round(rules.claimGracePeriodMs / 1000)}s after the first claim.`;
+    }
+    return undefined;
+  }
+  if (completedAtCallIndex !== room.calledNumbers.length - 1) {
+    return `Missed: ${prizeType} was completed on number ${completingNumber} and had to be claimed before the next number was called.`;
+  }
+  return undefined;
+}
+
+// After the game ends, a prize completed on the game-ending call is still shared with claims made within
+// the grace period of the claim that ended it, just as the auto-award and autoClaim rooms would share it.
+function sharesGameEndingCall(room: ServerRoom, ticket: HousieTicketGrid, prizeType: PrizeKey): boolean {
+  if (!room.isGameOver) return false;
+  const endingPrize = getActivePrizes(room.settings).find(prize => isGameEndingPrize(room, prize) && !!room.prizeStatus[prize]?.claimedBy.length);
+  const endingClaim = endingPrize ? room.prizeStatus[endingPrize] : undefined;
+  if (!endingClaim || endingClaim.winningCallIndex === undefined) return false;
+
+  const rules = room.settings.claimRules || DEFAULT_CLAIM_RULES;
+  const endedAt = endingClaim.timestamp ? new Date(endingClaim.timestamp).getTime() : Date.now();
+  if (Date.now() - endedAt > rules.claimGracePeriodMs) return false;
+  return findCompletionCallIndex(room, ticket, room.calledNumbers, prizeType) === endingClaim.winningCallIndex &&
+    !checkClaimWindow(room, prizeType, endingClaim.winningCallIndex);
+}
+
+function recordPrizeWinner(room: ServerRoom, prizeType: PrizeKey, playerId: string, ticketIndex: number, completedAtCallIndex: number) {
+  const now = new Date();
+  let claim = room.prizeStatus[prizeType];
+  if (!claim || !Array.isArray(claim.claimedBy)) {
+    claim = room.prizeStatus[prizeType] = { claimedBy: [], winners: [], timestamp: now };
+  } else if (!claim.timestamp) {
+    claim.timestamp = now;
+  }
+  if (claim.winningCallIndex === undefined) {
+    claim.winningCallIndex = completedAtCallIndex;
+    claim.winningNumber = room.calledNumbers[completedAtCallIndex];
+  }
+  claim.claimedBy.push(playerId);
+  (claim.winners ||= []).push({ playerId, ticketIndex, claimedAt: now });
+  appendRoomEvent(room, 'prizeClaimed', { prizeType, playerId, ticketIndex, callIndex: completedAtCallIndex, number: room.calledNumbers[completedAtCallIndex] });
+}
+
+function chargeForTickets(room: ServerRoom, player: ServerPlayerInRoom, ticketCount: number) {
+  const cost = ticketCount * (room.settings.ticketPrice || 0);
+  player.amountPaid = (player.amountPaid || 0) + cost;
+  room.pot = (room.pot || 0) + cost;
+  appendRoomEvent(room, 'ticketsPurchased', { playerId: player.id, count: ticketCount, cost });
+}
+
+// Marks the game over and settles the pot. Every path that ends a game goes through here.
+function endGame(room: ServerRoom) {
+  const isFirstSettlement = !room.settlement; // Co-winners of the final prize re-settle the same game
+  room.isGameOver = true;
+  room.settlement = computeSettlement(room, getActivePrizes(room.settings));
+  if (isFirstSettlement) {
+    appendRoomEvent(room, 'gameOver', { calls: room.calledNumbers.length, pot: room.settlement.pot });
+  }
+  archiveRound(room, room.session?.roundStartedAt);
+  log.info('Game settled.', { roomId: room.id, pot: room.settlement.pot, unallocated: room.settlement.unallocated });
+}
+
+function getCallInterval(room: ServerRoom): number {
+  return room.settings.callIntervalMs || SERVER_CALL_INTERVAL; // Rooms persisted before call settings existed
+}
+
+function isAutoCallingActive(room: ServerRoom): boolean {
+  return room.isGameStarted && !room.isGameOver && room.settings.callMode !== 'manual' && !room.settings.isPaused;
 }
 
 function initializeNumberPool(): number[] {
@@ -30,12 +297,23 @@ function initializeNumberPool(): number[] {
   return pool;
 }
 
-function initializePrizeStatus(roomSettings: GameSettings): Record<PrizeType, PrizeClaim | null> {
-  const status: Record<PrizeType, PrizeClaim | null> = {} as Record<PrizeType, PrizeClaim | null>;
-  const prizeFormat = roomSettings.prizeFormat || DEFAULT_GAME_SETTINGS.prizeFormat;
-  const prizesForFormat = PRIZE_DEFINITIONS[prizeFormat] || Object.values(PRIZE_TYPES);
+// Tickets come from the room's committed seed so they can be recomputed in the post-game audit.
+function generateTicketsForPlayer(room: ServerRoom, playerId: string, count: number): HousieTicketGrid[] {
+  const serverSeed = room.fairDraw?.serverSeed;
+  return Array.from({ length: count }, (_, ticketIndex) =>
+    serverSeed ? generateTicketForSeed(serverSeed, playerId, ticketIndex) : generateImprovedHousieTicket());
+}
+
+function getActivePrizes(roomSettings: ServerGameSettings): PrizeKey[] {
+  const prizeFormat = roomSettings?.prizeFormat || DEFAULT_GAME_SETTINGS.prizeFormat;
+  const formatPrizes = (PRIZE_DEFINITIONS[prizeFormat] || Object.values(PRIZE_TYPES)) as PrizeKey[];
+  return [...formatPrizes, ...(roomSettings?.customPrizes || []).map(p => p.id)];
+}
+
+function initializePrizeStatus(roomSettings: ServerGameSettings): Partial<Record<PrizeKey, ServerPrizeClaim | null>> {
+  const status: Partial<Record<PrizeKey, ServerPrizeClaim | null>> = {};
 
-  (prizesForFormat as PrizeType[]).forEach(prize => {
+  getActivePrizes(roomSettings).forEach(prize => {
     status[prize] = null;
   });
   return status;
@@ -46,21 +324,104 @@ function stopRoomCallingTimer(roomId: string, reason: string) {
   if (timerId) {
     clearInterval(timerId);
     roomCallTimers.delete(roomId);
-    console.log(`Room ${roomId}: Server-side auto-calling STOPPED. Reason: ${reason}`);
+    log.info('Server-side auto-calling stopped.', { roomId, reason });
+  }
+}
+
+// Arms the auto-calling timer for a room. The first call fires after `firstCallDelay`
+// (used to resume a recovered or re-timed game on its original cadence), then every call interval.
+function armRoomCallingTimer(roomId: string, firstCallDelay?: number): boolean {
+  const room = rooms.get(roomId);
+  if (!room) return false;
+  const callInterval = getCallInterval(room);
+  const initialDelay = firstCallDelay ?? callInterval;
+
+  const io = getIoInstance();
+  if (!io) {
+    log.error('Socket.IO instance not available. Server-side auto-calling will not start.', { roomId });
+    return false;
+  }
+
+  const callTick = () => {
+    const currentRoomForInterval = getRoomStore(roomId); // Get fresh state
+    if (!currentRoomForInterval || !isAutoCallingActive(currentRoomForInterval)) {
+      stopRoomCallingTimer(roomId, !currentRoomForInterval ? "Room no longer exists (timer check)" : "Game not running in auto mode (timer check)");
+      return;
+    }
+
+    callNextNumberStore(roomId); // This updates the room in the repository
+    const roomStateForClient = getRoomStateForClient(roomId);
+
+    if (!roomStateForClient) {
+      log.error('Failed to get client state after auto-call, cannot emit.', { roomId });
+      stopRoomCallingTimer(roomId, "Failed to retrieve client state during auto-call.");
+      return;
+    }
+
+    emitRoomStateToRoom(io, roomId, 'roomUpdate'); // Each socket gets its own projection
+    log.debug('Server auto-called. Emitted roomUpdate.', { roomId, currentNumber: roomStateForClient.currentNumber });
+
+    if (roomStateForClient.isGameOver) {
+      emitRoomStateToRoom(io, roomId, 'gameOver');
+      stopRoomCallingTimer(roomId, "Game over condition met after successful auto-call.");
+    }
+  };
+
+  stopRoomCallingTimer(roomId, "Re-arming calling timer.");
+  log.info('Starting server-side auto-calling.', { roomId, callIntervalMs: callInterval, firstCallInMs: initialDelay });
+  if (initialDelay >= callInterval) {
+    roomCallTimers.set(roomId, setInterval(callTick, callInterval));
+    return true;
   }
+
+  const firstCallTimer = setTimeout(() => {
+    callTick();
+    if (roomCallTimers.get(roomId) === firstCallTimer) { // Not stopped by the first call
+      roomCallTimers.set(roomId, setInterval(callTick, callInterval));
+    }
+  }, Math.max(0, initialDelay));
+  roomCallTimers.set(roomId, firstCallTimer);
+  return true;
 }
 
-export function createRoomStore(host: Player, clientSettings?: Partial<GameSettings>): Room {
+// Returns the host's projection of the new room, never the raw room: that holds the secret server
+// seed and the number pool. `sessionToken` is the host's credential for socket events; it is not stored on the room.
+export function createRoomStore(host: Player, clientSettings?: Partial<ServerGameSettings>): (ClientRoomState & { sessionToken: string }) | { error: string } {
+  const customPrizesResult = validateCustomPrizes(clientSettings?.customPrizes, Object.values(PRIZE_TYPES) as string[]);
+  if ('error' in customPrizesResult) return { error: customPrizesResult.error };
+  if (rooms.list().length >= ROOM_LIFECYCLE.maxRooms) sweepRoomsStore(); // Free expired rooms before refusing
+  if (rooms.list().length >= ROOM_LIFECYCLE.maxRooms) {
+    log.warn('Room creation refused: room limit reached.', { playerId: host.id, maxRooms: ROOM_LIFECYCLE.maxRooms });
+    return { error: "The server has reached its room limit. Please try again later." };
+  }
+
   const roomId = generateRoomId();
-  const gameSettings: GameSettings = { ...DEFAULT_GAME_SETTINGS, ...clientSettings };
+  const serverSeed = createServerSeed();
+  const gameSettings: ServerGameSettings = {
+    ...DEFAULT_GAME_SETTINGS,
+    ...clientSettings,
+    callMode: clientSettings?.callMode === 'manual' ? 'manual' : 'auto',
+    callIntervalMs: clampCallInterval(clientSettings?.callIntervalMs ?? SERVER_CALL_INTERVAL),
+    isPaused: false,
+    claimRules: sanitizeClaimRules(clientSettings?.claimRules),
+    ticketPrice: Math.max(0, Math.floor(Number(clientSettings?.ticketPrice) || 0)),
+    prizeAllocation: {},
+    customPrizes: customPrizesResult.prizes,
+    autoClaim: clientSettings?.autoClaim === true,
+    maxTicketsPerPlayer: clampMaxTickets(clientSettings?.maxTicketsPerPlayer),
+  };
+  const allocationResult = resolvePrizeAllocation(getActivePrizes(gameSettings), clientSettings?.prizeAllocation);
+  if ('error' in allocationResult) return { error: allocationResult.error };
+  gameSettings.prizeAllocation = allocationResult.allocation;
 
-  const hostPlayerInRoom: BackendPlayerInRoom = {
+  const hostPlayerInRoom: ServerPlayerInRoom = {
     ...host,
     isHost: true,
     tickets: [], // Host will "buy" tickets in the lobby
+    isOnline: false, // Marked online once the host's socket joins the room
   };
 
-  const newRoom: Room = {
+  const newRoom: ServerRoom = {
     id: roomId,
     host: { id: host.id, name: host.name, isHost: true },
     players: [hostPlayerInRoom],
@@ -72,61 +433,91 @@ export function createRoomStore(host: Player, clientSettings?: Partial<GameSetti
     calledNumbers: [],
     numberPool: initializeNumberPool(),
     prizeStatus: initializePrizeStatus(gameSettings),
+    bogeys: {},
+    pot: 0,
+    fairDraw: { serverSeed, seedCommitment: commitToSeed(serverSeed), entropyContributions: [] },
+    eventLog: [],
+    session: { round: 1, rounds: [] },
+    spectators: [],
+    chat: [],
+    mutedIds: [],
+    kickedIds: [],
     lastNumberCalledTimestamp: undefined,
   };
-  rooms.set(roomId, newRoom);
-  console.log(`Room created: ${roomId} by host ${host.id}. Settings: ${JSON.stringify(gameSettings)}`);
-  return newRoom;
+  appendRoomEvent(newRoom, 'roomCreated', { hostId: host.id, hostName: host.name, seedCommitment: newRoom.fairDraw!.seedCommitment });
+  rooms.save(newRoom);
+  incrementCounter('rooms_created');
+  log.info('Room created.', { roomId, playerId: host.id, settings: gameSettings });
+  const hostIdentity: PlayerIdentity = { roomId, playerId: host.id, role: 'player' };
+  const hostView = getRoomStateForClient(roomId, hostIdentity);
+  if (!hostView) return { error: "Failed to prepare the new room." };
+  return { ...hostView, sessionToken: issueSessionToken(hostIdentity) };
 }
 
-export function getRoomStore(roomId: string): Room | undefined {
+export function getRoomStore(roomId: string): ServerRoom | undefined {
   const room = rooms.get(roomId);
-  if (room && !room.isGameStarted && (new Date().getTime() - new Date(room.createdAt).getTime()) > 24 * 60 * 60 * 1000) {
-    stopRoomCallingTimer(roomId, "Room expired due to prolonged inactivity before start.");
-    rooms.delete(roomId);
-    console.log(`Room ${roomId} expired and deleted due to inactivity.`);
+  const expiryReason = room && getRoomExpiryReason(room, hasConnectedParticipants(roomId), ROOM_LIFECYCLE);
+  if (expiryReason) {
+    closeRoomStore(roomId, expiryReason);
     return undefined;
   }
   return room;
 }
 
-export function addPlayerToRoomStore(roomId: string, playerInfo: { id: string; name: string }, ticketsToBuyRequest?: number): Room | { error: string } {
+export function addPlayerToRoomStore(roomId: string, playerInfo: { id: string; name: string }, ticketsToBuyRequest?: number): ServerRoom | { error: string } {
   const room = rooms.get(roomId);
   if (!room) return { error: "Room not found." };
 
-  const numTicketsToGenerate = Math.max(1, ticketsToBuyRequest === undefined ? (room.settings.numberOfTicketsPerPlayer || DEFAULT_NUMBER_OF_TICKETS_PER_PLAYER) : ticketsToBuyRequest);
+  const maxTickets = room.settings.maxTicketsPerPlayer || DEFAULT_MAX_TICKETS_PER_PLAYER; // Rooms persisted before the cap existed
+  if (ticketsToBuyRequest !== undefined && (!Number.isInteger(ticketsToBuyRequest) || ticketsToBuyRequest < 1)) {
+    return { error: "Number of tickets must be a whole number of at least 1." };
+  }
+  if (ticketsToBuyRequest !== undefined && ticketsToBuyRequest > maxTickets) {
+    return { error: `You can buy at most ${maxTickets} tickets in this room.` };
+  }
+  const numTicketsToGenerate = ticketsToBuyRequest ?? Math.min(maxTickets, room.settings.numberOfTicketsPerPlayer || DEFAULT_NUMBER_OF_TICKETS_PER_PLAYER);
 
   const existingPlayerIndex = room.players.findIndex(p => p.id === playerInfo.id);
 
+  if (room.kickedIds?.includes(playerInfo.id)) return { error: "You were removed from this room by the host." };
+  if (room.spectators?.some(s => s.id === playerInfo.id)) {
+    return { error: "Spectators must be promoted by the host before they can buy tickets." };
+  }
+
   if (existingPlayerIndex !== -1) {
     const existingPlayer = room.players[existingPlayerIndex];
     if (existingPlayer.tickets.length === 0 && numTicketsToGenerate > 0 && !room.isGameStarted) {
-      existingPlayer.tickets = Array.from({ length: numTicketsToGenerate }, () => generateImprovedHousieTicket());
-      console.log(`Player ${playerInfo.id} (existing) confirmed/bought ${numTicketsToGenerate} tickets in room ${roomId}.`);
+      existingPlayer.tickets = generateTicketsForPlayer(room, playerInfo.id, numTicketsToGenerate);
+      chargeForTickets(room, existingPlayer, numTicketsToGenerate);
+      log.info(`Existing player bought ${numTicketsToGenerate} tickets.`, { roomId, playerId: playerInfo.id });
     } else if (room.isGameStarted && existingPlayer.tickets.length === 0) {
       return { error: "Game has already started. Cannot add tickets now for this existing player." };
     } else if (existingPlayer.tickets.length > 0) {
-       console.log(`Player ${playerInfo.id} already has tickets in room ${roomId}. No changes to tickets made.`);
+       log.info('Player already has tickets. No changes to tickets made.', { roomId, playerId: playerInfo.id });
     }
   } else {
-    if (room.isGameStarted) return { error: "Game has already started. New players cannot join with tickets." };
+    if (room.isGameStarted) return { error: "Game has already started. New players cannot join with tickets, but you can join as a spectator." };
     if (room.players.length >= room.settings.lobbySize) return { error: "Room is full." };
     
-    const newPlayer: BackendPlayerInRoom = {
+    const newPlayer: ServerPlayerInRoom = {
       id: playerInfo.id,
       name: playerInfo.name,
       isHost: playerInfo.id === room.host.id,
-      tickets: Array.from({ length: numTicketsToGenerate }, () => generateImprovedHousieTicket()),
+      tickets: generateTicketsForPlayer(room, playerInfo.id, numTicketsToGenerate),
+      isOnline: false,
     };
     room.players.push(newPlayer);
-    console.log(`New player ${playerInfo.name} (${playerInfo.id}) joined room ${roomId} with ${numTicketsToGenerate} tickets.`);
+    appendRoomEvent(room, 'playerJoined', { playerId: newPlayer.id, name: newPlayer.name });
+    chargeForTickets(room, newPlayer, numTicketsToGenerate);
+    log.info(`New player ${playerInfo.name} joined with ${numTicketsToGenerate} tickets.`, { roomId, playerId: playerInfo.id });
   }
 
-  rooms.set(roomId, room);
+  rooms.save(room);
   return room;
 }
 
-export function startGameInRoomStore(roomId: string, hostId: string): Room | { error: string } {
+export function startGameInRoomStore(host: PlayerIdentity): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
   const room = rooms.get(roomId);
   if (!room) return { error: "Room not found." };
   if (room.host.id !== hostId) return { error: "Only the host can start the game." };
@@ -146,52 +537,232 @@ export function startGameInRoomStore(roomId: string, hostId: string): Room | { e
 
   room.isGameStarted = true;
   room.isGameOver = false;
-  room.numberPool = initializeNumberPool();
+  if (room.fairDraw) {
+    room.fairDraw.drawSeed = deriveDrawSeed(room.fairDraw.serverSeed, room.fairDraw.entropyContributions);
+    room.numberPool = shuffleNumberPool(NUMBERS_RANGE_MIN, NUMBERS_RANGE_MAX, createSeededRandom(room.fairDraw.drawSeed, 'draw'));
+  } else {
+    room.numberPool = initializeNumberPool();
+  }
   room.calledNumbers = [];
   room.currentNumber = null;
   room.prizeStatus = initializePrizeStatus(room.settings);
+  room.bogeys = {};
+  room.settlement = undefined;
   room.lastNumberCalledTimestamp = undefined;
+  room.settings.isPaused = false;
+  (room.session ||= { round: 1, rounds: [] }).roundStartedAt = new Date();
+  appendRoomEvent(room, 'gameStarted', {
+    round: room.session.round,
+    hostId,
+    players: room.players.filter(p => p.tickets.length > 0).map(p => ({ playerId: p.id, ticketCount: p.tickets.length })),
+    callMode: room.settings.callMode,
+  });
+  rooms.save(room);
   
   stopRoomCallingTimer(roomId, "Game is (re)starting."); // Clear any old timer
 
-  const io = getIoInstance();
-  if (!io) {
-    console.error(`Socket.IO instance not available in startGameInRoomStore for room ${roomId}. Server-side auto-calling will not start.`);
+  if (room.settings.callMode === 'manual') {
+    log.info('Manual calling mode, waiting for the host to call numbers.', { roomId });
   } else {
-    console.log(`Room ${roomId}: Starting server-side auto-calling every ${SERVER_CALL_INTERVAL}ms.`);
-    const intervalId = setInterval(() => {
-      const currentRoomForInterval = getRoomStore(roomId); // Get fresh state
-      if (!currentRoomForInterval || !currentRoomForInterval.isGameStarted || currentRoomForInterval.isGameOver) {
-        stopRoomCallingTimer(roomId, !currentRoomForInterval ? "Room no longer exists (timer check)" : "Game not started or already over (timer check)");
-        return;
-      }
-      
-      const result = callNextNumberStore(roomId); // This updates the room in the `rooms` Map
-      const roomStateForClient = getRoomStateForClient(roomId); 
-
-      if (!roomStateForClient) {
-        console.error(`Room ${roomId}: Failed to get client state after auto-call for interval, cannot emit.`);
-        stopRoomCallingTimer(roomId, "Failed to retrieve client state during auto-call.");
-        return;
-      }
+    armRoomCallingTimer(roomId);
+  }
 
-      io.to(roomId).emit('roomUpdate', roomStateForClient); // Emit updated state
-      // console.log(`Room ${roomId}: Server auto-called. Emitted roomUpdate. Current#: ${roomStateForClient.currentNumber}`);
+  log.info('Game started. Server timer initiated.', { roomId });
+  return room;
+}
 
-      if (roomStateForClient.isGameOver) { 
-          io.to(roomId).emit('gameOver', roomStateForClient);
-          stopRoomCallingTimer(roomId, "Game over condition met after successful auto-call.");
-      }
-    }, SERVER_CALL_INTERVAL);
-    roomCallTimers.set(roomId, intervalId);
+function authorizeHost(room: ServerRoom, hostId: string): string | undefined {
+  if (room.host.id !== hostId) return "Only the host can control the game.";
+  return undefined;
+}
+
+function msSinceLastCall(room: ServerRoom): number {
+  const lastCallAt = room.lastNumberCalledTimestamp ? new Date(room.lastNumberCalledTimestamp).getTime() : Date.now();
+  return Date.now() - lastCallAt;
+}
+
+// Starts the next round of the session: players stay, tickets and the pot are cleared so
+// everyone can rebuy, and a fresh seed is committed for the new round's tickets and draw.
+export function playAgainStore(host: PlayerIdentity): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (!room.isGameOver) return { error: "The current round is not over yet." };
+
+  stopRoomCallingTimer(roomId, "Starting a new round.");
+  const session = room.session || (room.session = { round: 1, rounds: [] });
+  session.round += 1;
+  session.roundStartedAt = undefined;
+
+  // Players whose grace period ran out mid-game were kept for prize records; they have no seat in the new round.
+  room.players
+    .filter(p => !p.isOnline && p.id !== room.host.id && !playerGraceTimers.has(graceTimerKey(roomId, p.id)))
+    .forEach(p => {
+      removePlayer(room, p.id, 'disconnect');
+      log.info('Dropped a player who did not reconnect before the new round.', { roomId, playerId: p.id });
+    });
+  room.players.forEach(p => {
+    p.tickets = [];
+    p.amountPaid = 0;
+  });
+  const serverSeed = createServerSeed();
+  room.fairDraw = { serverSeed, seedCommitment: commitToSeed(serverSeed), entropyContributions: [] };
+  room.isGameStarted = false;
+  room.isGameOver = false;
+  room.numberPool = initializeNumberPool();
+  room.calledNumbers = [];
+  room.currentNumber = null;
+  room.prizeStatus = initializePrizeStatus(room.settings);
+  room.bogeys = {};
+  room.pot = 0;
+  room.settlement = undefined;
+  room.lastNumberCalledTimestamp = undefined;
+  room.settings.isPaused = false;
+  appendRoomEvent(room, 'newRound', { round: session.round, hostId, seedCommitment: room.fairDraw.seedCommitment });
+  rooms.save(room);
+  log.info(`Round ${session.round} set up. Players may now buy tickets.`, { roomId, playerId: hostId });
+  return room;
+}
+
+export function pauseGameStore(host: PlayerIdentity): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (!room.isGameStarted || room.isGameOver) return { error: "Game is not in progress." };
+  if (room.settings.isPaused) return { error: "Game is already paused." };
+
+  room.settings.isPaused = true;
+  appendRoomEvent(room, 'gamePaused', { hostId });
+  stopRoomCallingTimer(roomId, "Paused by host.");
+  rooms.save(room);
+  log.info('Game paused by host.', { roomId, playerId: hostId });
+  return room;
+}
+
+export function resumeGameStore(host: PlayerIdentity): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (!room.isGameStarted || room.isGameOver) return { error: "Game is not in progress." };
+  if (!room.settings.isPaused) return { error: "Game is not paused." };
+
+  room.settings.isPaused = false;
+  appendRoomEvent(room, 'gameResumed', { hostId });
+  rooms.save(room);
+  if (isAutoCallingActive(room)) armRoomCallingTimer(roomId); // Full interval after resuming so players can settle in
+  log.info('Game resumed by host.', { roomId, playerId: hostId });
+  return room;
+}
+
+export function setCallIntervalStore(host: PlayerIdentity, intervalMs: number): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (!Number.isFinite(intervalMs) || intervalMs < MIN_CALL_INTERVAL || intervalMs > MAX_CALL_INTERVAL) {
+    return { error: `Call interval must be between ${MIN_CALL_INTERVAL}ms and ${MAX_CALL_INTERVAL}ms.` };
+  }
+
+  room.settings.callIntervalMs = clampCallInterval(intervalMs);
+  rooms.save(room);
+  if (isAutoCallingActive(room)) {
+    armRoomCallingTimer(roomId, room.settings.callIntervalMs - msSinceLastCall(room));
+  }
+  log.info('Call interval changed by host.', { roomId, playerId: hostId, callIntervalMs: room.settings.callIntervalMs });
+  return room;
+}
+
+export function setCallModeStore(host: PlayerIdentity, callMode: CallMode): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (callMode !== 'auto' && callMode !== 'manual') return { error: "Call mode must be 'auto' or 'manual'." };
+
+  room.settings.callMode = callMode;
+  rooms.save(room);
+  if (isAutoCallingActive(room)) {
+    armRoomCallingTimer(roomId);
+  } else {
+    stopRoomCallingTimer(roomId, `Call mode switched to ${callMode}.`);
+  }
+  log.info('Call mode changed by host.', { roomId, playerId: hostId, callMode });
+  return room;
+}
+
+export function hostCallNextNumberStore(host: PlayerIdentity): ServerRoom | { error: string; number?: number } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (room.settings.callMode !== 'manual') return { error: "Numbers are called automatically in this room." };
+  if (room.settings.isPaused) return { error: "Game is paused." };
+  return callNextNumberStore(roomId);
+}
+
+export function contributeEntropyStore(player: PlayerIdentity, entropy: string): ServerRoom | { error: string } {
+  const { roomId, playerId } = player;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  if (!room.fairDraw) return { error: "This room does not use verifiable draws." };
+  if (room.isGameStarted) return { error: "Entropy can only be contributed before the game starts." };
+  if (!room.players.some(p => p.id === playerId)) return { error: "Player not found in this room." };
+  if (typeof entropy !== 'string' || entropy.length === 0 || entropy.length > MAX_ENTROPY_LENGTH) {
+    return { error: `Entropy must be a string of 1 to ${MAX_ENTROPY_LENGTH} characters.` };
   }
 
-  rooms.set(roomId, room);
-  console.log(`Game started in room: ${roomId}. Server timer initiated.`);
+  room.fairDraw.entropyContributions = [
+    ...room.fairDraw.entropyContributions.filter(c => c.playerId !== playerId),
+    { playerId, entropy },
+  ];
+  rooms.save(room);
+  log.info('Player contributed draw entropy.', { roomId, playerId });
   return room;
 }
 
-export function callNextNumberStore(roomId: string): Room | { error: string; number?: number } {
+export function getAuditBundleStore(roomId: string): AuditBundle | { error: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  if (!room.isGameOver) return { error: "The audit bundle is only available once the game is over." };
+  const { fairDraw } = room;
+  if (!fairDraw?.drawSeed) return { error: "This game was not played with verifiable draws." };
+
+  return {
+    roomId,
+    algorithm: FAIR_DRAW_ALGORITHM,
+    seedCommitment: fairDraw.seedCommitment,
+    serverSeed: fairDraw.serverSeed,
+    entropyContributions: fairDraw.entropyContributions,
+    drawSeed: fairDraw.drawSeed,
+    numberRange: { min: NUMBERS_RANGE_MIN, max: NUMBERS_RANGE_MAX },
+    calledNumbers: room.calledNumbers,
+    fullDrawOrder: drawOrderForSeed(fairDraw.drawSeed, NUMBERS_RANGE_MIN, NUMBERS_RANGE_MAX),
+    tickets: room.players.map(p => ({ playerId: p.id, name: p.name, tickets: p.tickets })),
+  };
+}
+
+export function getRoomEventLogStore(roomId: string, fromSeq: number = 0): RoomEvent[] | { error: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  return (room.eventLog || []).filter(event => event.seq > fromSeq);
+}
+
+export function reconstructRoomStore(roomId: string): ReconstructedRoomState | { error: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  return reconstructRoomStateFromLog(room.eventLog || []);
+}
+
+export function callNextNumberStore(roomId: string): ServerRoom | { error: string; number?: number } {
   const room = rooms.get(roomId);
   if (!room) return { error: "Room not found." };
   if (!room.isGameStarted) return { error: "Game not started." };
@@ -201,21 +772,21 @@ export function callNextNumberStore(roomId: string): Room | { error: string; num
   }
 
   if (room.numberPool.length === 0) {
-    room.isGameOver = true;
+    endGame(room);
     room.lastNumberCalledTimestamp = new Date();
     if (!room.prizeStatus[PRIZE_TYPES.FULL_HOUSE] || room.prizeStatus[PRIZE_TYPES.FULL_HOUSE]!.claimedBy.length === 0) {
-      console.log(`Room ${roomId}: All numbers called. No Full House winner declared. Game Over.`);
+      log.info('All numbers called. No Full House winner declared. Game over.', { roomId });
     }
-    rooms.set(roomId, room);
+    rooms.save(room);
     stopRoomCallingTimer(roomId, "All numbers have been called.");
     return room;
   }
 
   const nextNumber = room.numberPool.pop();
   if (nextNumber === undefined) {
-    room.isGameOver = true;
+    endGame(room);
     room.lastNumberCalledTimestamp = new Date();
-    rooms.set(roomId, room);
+    rooms.save(room);
     stopRoomCallingTimer(roomId, "Number pool was unexpectedly empty.");
     return room;
   }
@@ -223,17 +794,26 @@ export function callNextNumberStore(roomId: string): Room | { error: string; num
   room.currentNumber = nextNumber;
   room.calledNumbers.push(nextNumber);
   room.lastNumberCalledTimestamp = new Date();
-  rooms.set(roomId, room);
-  // console.log(`Room ${roomId}: Called number ${nextNumber}. Remaining in pool: ${room.numberPool.length}`);
+  appendRoomEvent(room, 'numberCalled', { number: nextNumber, callIndex: room.calledNumbers.length - 1 });
+  if (room.settings.autoClaim) {
+    const awards = runAutoClaims(room);
+    const io = getIoInstance();
+    if (io && awards.length > 0) {
+      io.to(roomId).emit('prizeWon', { awards });
+    }
+  }
+  rooms.save(room);
+  recordNumberCall();
+  log.debug(`Called number ${nextNumber}.`, { roomId, remaining: room.numberPool.length });
   return room;
 }
 
 export function claimPrizeStore(
-  roomId: string,
-  playerId: string,
-  prizeType: PrizeType,
+  claimant: PlayerIdentity,
+  prizeType: PrizeKey,
   ticketIndex: number
-): Room | { error: string } {
+): ServerRoom | { error: string; bogey?: BogeyEvent } {
+  const { roomId, playerId } = claimant;
   const room = rooms.get(roomId);
   if (!room) return { error: "Room not found." };
   if (!room.isGameStarted) return { error: "Game not started." };
@@ -244,7 +824,9 @@ export function claimPrizeStore(
   
   const ticket = player.tickets[ticketIndex];
 
-  if (room.isGameOver && prizeType !== PRIZE_TYPES.FULL_HOUSE) {
+  if (!getActivePrizes(room.settings).includes(prizeType)) return { error: `${prizeType} is not a prize in this room.` };
+  const isSharedEndingCall = sharesGameEndingCall(room, ticket, prizeType);
+  if (room.isGameOver && !isGameEndingPrize(room, prizeType) && !isSharedEndingCall) {
     return { error: "Game is over. No more claims except potentially Full House." };
   }
   if (room.prizeStatus[prizeType]?.claimedBy.includes(playerId)) {
@@ -252,78 +834,514 @@ export function claimPrizeStore(
   }
   
   const isFullHouseAlreadyClaimedByAnyone = room.prizeStatus[PRIZE_TYPES.FULL_HOUSE]?.claimedBy.length > 0;
-  if (isFullHouseAlreadyClaimedByAnyone && prizeType !== PRIZE_TYPES.FULL_HOUSE) {
+  if (isFullHouseAlreadyClaimedByAnyone && prizeType !== PRIZE_TYPES.FULL_HOUSE && !isSharedEndingCall) {
       return { error: "Full House already claimed by someone, no more claims for other prizes." };
   }
 
-  const housieLib = require('@/lib/housie'); 
-  const isValidClaim = housieLib.checkWinningCondition(ticket, room.calledNumbers, prizeType);
+  const bogeyRecord = getBogeyRecord(room, playerId);
+  if (bogeyRecord.cancelledTickets.includes(ticketIndex)) {
+    return { error: `Ticket ${ticketIndex + 1} was cancelled after repeated bogeys.` };
+  }
+  if (bogeyRecord.lockedPrizes.includes(prizeType)) {
+    return { error: `You are locked out of ${prizeType} after a bogey.` };
+  }
+  const cooldownRemaining = bogeyCooldownRemaining(room, bogeyRecord);
+  if (cooldownRemaining > 0) {
+    return { error: `Bogey cooldown: you can claim again in ${Math.ceil(cooldownRemaining / 1000)}s.` };
+  }
 
-  if (!isValidClaim) return { error: `Claim for ${prizeType} on ticket ${ticketIndex + 1} is not valid (Bogey!). Ensure all numbers for the claim are marked and have been called.` };
+  const completedAtCallIndex = findCompletionCallIndex(room, ticket, room.calledNumbers, prizeType);
 
-  if (!room.prizeStatus[prizeType] || !Array.isArray(room.prizeStatus[prizeType]?.claimedBy)) {
-    room.prizeStatus[prizeType] = { claimedBy: [], timestamp: new Date() };
-  } else if (!room.prizeStatus[prizeType]!.timestamp) { 
-    room.prizeStatus[prizeType]!.timestamp = new Date();
+  if (completedAtCallIndex === -1) {
+    const bogey = recordBogey(room, player, prizeType, ticketIndex);
+    rooms.save(room);
+    return { error: `Claim for ${prizeType} on ticket ${ticketIndex + 1} is not valid (Bogey!). Ensure all numbers for the claim are marked and have been called.`, bogey };
   }
-  room.prizeStatus[prizeType]!.claimedBy.push(playerId);
-  console.log(`Room ${roomId}: Player ${playerId} successfully claimed ${prizeType}.`);
+
+  const claimWindowError = checkClaimWindow(room, prizeType, completedAtCallIndex);
+  if (claimWindowError) return { error: claimWindowError };
+
+  recordPrizeWinner(room, prizeType, playerId, ticketIndex, completedAtCallIndex);
+  incrementCounter('claims', { outcome: 'won' });
+  log.info(`Claimed ${prizeType} (completed on call #${completedAtCallIndex + 1}).`, { roomId, playerId, prizeType, ticketIndex });
 
   if (prizeType === PRIZE_TYPES.FULL_HOUSE) {
     room.isGameOver = true;
-    console.log(`Room ${roomId}: Full House claimed by ${playerId}. Game Over.`);
+    log.info('Full House claimed. Game over.', { roomId, playerId });
     stopRoomCallingTimer(roomId, "Full House claimed.");
 
     const linePrizesToAutoCheck: PrizeType[] = [PRIZE_TYPES.TOP_LINE, PRIZE_TYPES.MIDDLE_LINE, PRIZE_TYPES.BOTTOM_LINE];
     for (const linePrize of linePrizesToAutoCheck) {
-      const linePrizeClaim = room.prizeStatus[linePrize];
-      if ((!linePrizeClaim || linePrizeClaim.claimedBy.length === 0 || !linePrizeClaim.claimedBy.includes(playerId)) &&
-          housieLib.checkWinningCondition(ticket, room.calledNumbers, linePrize)) {
-        
-        if (!room.prizeStatus[linePrize] || !Array.isArray(room.prizeStatus[linePrize]?.claimedBy)) {
-            room.prizeStatus[linePrize] = { claimedBy: [], timestamp: new Date() };
-        }
-        if (!room.prizeStatus[linePrize]!.claimedBy.includes(playerId)) { 
-            room.prizeStatus[linePrize]!.claimedBy.push(playerId);
-            console.log(`Room ${roomId}: Player ${playerId} auto-awarded ${linePrize} with Full House.`);
-        }
+      if (room.prizeStatus[linePrize]?.claimedBy.includes(playerId)) continue;
+      const lineCompletedAtCallIndex = findCompletionCallIndex(room, ticket, room.calledNumbers, linePrize);
+      // Lines finished by the same call as the Full House are awarded with it; earlier ones were missed.
+      if (lineCompletedAtCallIndex !== -1 && !checkClaimWindow(room, linePrize, lineCompletedAtCallIndex)) {
+        recordPrizeWinner(room, linePrize, playerId, ticketIndex, lineCompletedAtCallIndex);
+        log.info(`Auto-awarded ${linePrize} with Full House.`, { roomId, playerId });
       }
     }
+    endGame(room);
+  } else if (isGameEndingPrize(room, prizeType)) {
+    log.info(`Game-ending custom prize ${prizeType} claimed. Game over.`, { roomId, playerId });
+    stopRoomCallingTimer(roomId, `${prizeType} claimed.`);
+    endGame(room);
+  } else if (room.isGameOver) {
+    endGame(room); // Re-settle with the prize shared on the game-ending call
+  }
+  rooms.save(room);
+  return room;
+}
+
+function graceTimerKey(roomId: string, playerId: string): string {
+  return `${roomId}:${playerId}`;
+}
+
+function clearPlayerGraceTimer(roomId: string, playerId: string) {
+  const key = graceTimerKey(roomId, playerId);
+  const timerId = playerGraceTimers.get(key);
+  if (timerId) {
+    clearTimeout(timerId);
+    playerGraceTimers.delete(key);
+  }
+}
+
+function hasOtherConnectedSockets(roomId: string, playerId: string, excludingSocketId: string): boolean {
+  // Spectator and player ids never overlap within a room, so the id alone identifies the participant.
+  for (const [socketId, session] of socketSessions) {
+    if (socketId !== excludingSocketId && session.roomId === roomId && session.playerId === playerId) return true;
+  }
+  return false;
+}
+
+function migrateHost(room: ServerRoom, previousHostId: string): boolean {
+  const nextHost = room.players.find(p => p.id !== previousHostId && p.isOnline);
+  if (!nextHost) return false;
+
+  room.players.forEach(p => { p.isHost = p.id === nextHost.id; });
+  room.host = { id: nextHost.id, name: nextHost.name, isHost: true };
+  appendRoomEvent(room, 'hostChanged', { previousHostId, newHostId: nextHost.id, reason: 'disconnect' });
+  log.info('Host migrated.', { roomId: room.id, previousHostId, playerId: nextHost.id });
+  return true;
+}
+
+// Frees a player's seat, refunding their buy-in if the game they paid for never started.
+function removePlayer(room: ServerRoom, playerId: string, reason: RoomEventPayloads['playerLeft']['reason']) {
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) return;
+  const refunded = !room.isGameStarted;
+  if (refunded) room.pot = Math.max(0, (room.pot || 0) - (player.amountPaid || 0));
+  room.players = room.players.filter(p => p.id !== playerId);
+  appendRoomEvent(room, 'playerLeft', { playerId, reason, refunded });
+}
+
+function handlePlayerGraceExpired(roomId: string, playerId: string) {
+  playerGraceTimers.delete(graceTimerKey(roomId, playerId));
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const player = room.players.find(p => p.id === playerId);
+  if (!player || player.isOnline) return;
+
+  log.info('Reconnection grace period expired.', { roomId, playerId });
+  if (room.host.id === playerId && !migrateHost(room, playerId)) {
+    log.warn('No connected player available to take over as host.', { roomId, playerId });
+  }
+  if (!room.isGameStarted || room.isGameOver) {
+    // Outside a running game the seat is freed; in-game players keep their tickets for prize records.
+    if (room.host.id !== playerId) {
+      removePlayer(room, playerId, 'disconnect');
+      log.info('Player removed after not reconnecting.', { roomId, playerId });
+    }
+  }
+  rooms.save(room);
+
+  const io = getIoInstance();
+  if (io) {
+    emitRoomStateToRoom(io, roomId, 'roomUpdate');
+  }
+}
+
+export function registerPlayerSocketStore(identity: PlayerIdentity, socketId: string): ServerRoom | { error: string } {
+  const { roomId, playerId } = identity;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) return { error: "Player not found in this room." };
+
+  const previousSession = socketSessions.get(socketId);
+  if (previousSession && (previousSession.roomId !== roomId || previousSession.playerId !== playerId)) {
+    unregisterPlayerSocketStore(socketId);
+  }
+  socketSessions.set(socketId, { roomId, playerId, role: 'player' });
+
+  const wasWithinGracePeriod = playerGraceTimers.has(graceTimerKey(roomId, playerId));
+  clearPlayerGraceTimer(roomId, playerId);
+  player.isOnline = true;
+  player.disconnectedAt = undefined;
+  rooms.save(room);
+  if (wasWithinGracePeriod) {
+    log.info('Player reconnected within grace period.', { roomId, playerId, socketId });
+  }
+  return room;
+}
+
+export function unregisterPlayerSocketStore(socketId: string): SocketSession | undefined {
+  const session = socketSessions.get(socketId);
+  if (!session) return undefined;
+  socketSessions.delete(socketId);
+
+  const { roomId, playerId } = session;
+  const room = rooms.get(roomId);
+  if (room && session.role === 'spectator') {
+    // Spectators hold no seat, so they simply leave once their last socket is gone.
+    if (!hasOtherConnectedSockets(roomId, playerId, socketId)) {
+      room.spectators = (room.spectators || []).filter(s => s.id !== playerId);
+      rooms.save(room);
+      log.info('Spectator left.', { roomId, playerId });
+    }
+    return session;
+  }
+  const player = room?.players.find(p => p.id === playerId);
+  if (!room || !player || hasOtherConnectedSockets(roomId, playerId, socketId)) return session;
+
+  player.isOnline = false;
+  player.disconnectedAt = new Date();
+  rooms.save(room);
+
+  clearPlayerGraceTimer(roomId, playerId);
+  playerGraceTimers.set(graceTimerKey(roomId, playerId), setTimeout(() => handlePlayerGraceExpired(roomId, playerId), RECONNECT_GRACE_PERIOD));
+  log.info('Player went offline. Holding their seat.', { roomId, playerId, graceMs: RECONNECT_GRACE_PERIOD });
+  return session;
+}
+
+export function addSpectatorStore(spectator: PlayerIdentity, name: string, socketId: string): ServerRoom | { error: string } {
+  const { roomId, playerId: spectatorId } = spectator;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  if (room.players.some(p => p.id === spectatorId)) return { error: "You are already a player in this room." };
+  if (room.kickedIds?.includes(spectatorId)) return { error: "You were removed from this room by the host." };
+
+  const previousSession = socketSessions.get(socketId);
+  if (previousSession && (previousSession.roomId !== roomId || previousSession.playerId !== spectatorId)) {
+    unregisterPlayerSocketStore(socketId);
+  }
+  socketSessions.set(socketId, { roomId, playerId: spectatorId, role: 'spectator' });
+
+  room.spectators ||= [];
+  const existing = room.spectators.find(s => s.id === spectatorId);
+  if (existing) {
+    existing.isOnline = true;
+  } else {
+    room.spectators.push({ id: spectatorId, name, joinedAt: new Date(), isOnline: true, wantsToPlay: false });
+    appendRoomEvent(room, 'spectatorJoined', { spectatorId, name });
+    log.info(`Spectator ${name} joined.`, { roomId, playerId: spectatorId });
+  }
+  rooms.save(room);
+  return room;
+}
+
+// Re-attaches a socket to a spectator who is still watching, e.g. after reconnecting with their token.
+export function resumeSpectatorSocketStore(spectator: PlayerIdentity, socketId: string): ServerRoom | { error: string } {
+  const room = rooms.get(spectator.roomId);
+  if (!room) return { error: "Room not found." };
+  const entry = room.spectators?.find(s => s.id === spectator.playerId);
+  if (!entry) return { error: "Spectator not found in this room." };
+  return addSpectatorStore(spectator, entry.name, socketId);
+}
+
+export function requestToPlayStore(spectator: PlayerIdentity): ServerRoom | { error: string } {
+  const room = rooms.get(spectator.roomId);
+  if (!room) return { error: "Room not found." };
+  const entry = room.spectators?.find(s => s.id === spectator.playerId);
+  if (!entry) return { error: "Spectator not found in this room." };
+
+  entry.wantsToPlay = true;
+  rooms.save(room);
+  return room;
+}
+
+// Moves a spectator into the player list (without tickets) between rounds. Their sockets must
+// be re-bound to a player identity by the caller.
+export function promoteSpectatorStore(host: PlayerIdentity, spectatorId: string): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (room.isGameStarted && !room.isGameOver) return { error: "Spectators can only be promoted before the next round starts." };
+  const spectator = room.spectators?.find(s => s.id === spectatorId);
+  if (!spectator) return { error: "Spectator not found in this room." };
+  if (room.players.length >= room.settings.lobbySize) return { error: "Room is full." };
+
+  room.spectators = room.spectators.filter(s => s.id !== spectatorId);
+  room.players.push({ id: spectator.id, name: spectator.name, isHost: false, tickets: [], isOnline: spectator.isOnline });
+  for (const [socketId, session] of socketSessions) {
+    if (session.roomId === roomId && session.playerId === spectatorId) {
+      socketSessions.set(socketId, { roomId, playerId: spectatorId, role: 'player' });
+    }
+  }
+  appendRoomEvent(room, 'spectatorPromoted', { spectatorId, name: spectator.name, hostId });
+  rooms.save(room);
+  log.info('Spectator promoted to player by host.', { roomId, playerId: spectatorId, hostId });
+  return room;
+}
+
+function hasConnectedParticipants(roomId: string): boolean {
+  for (const session of socketSessions.values()) {
+    if (session.roomId === roomId) return true;
+  }
+  return false;
+}
+
+// Tears a room down completely: timers, socket sessions and the socket.io room, then the stored room.
+// Connected clients are told why via `roomClosed`.
+export function closeRoomStore(roomId: string, reason: string): boolean {
+  if (!rooms.has(roomId)) return false;
+
+  stopRoomCallingTimer(roomId, reason);
+  for (const key of Array.from(playerGraceTimers.keys())) {
+    if (key.startsWith(`${roomId}:`)) {
+      clearTimeout(playerGraceTimers.get(key));
+      playerGraceTimers.delete(key);
+    }
+  }
+  for (const [socketId, session] of Array.from(socketSessions)) {
+    if (session.roomId === roomId) socketSessions.delete(socketId);
+  }
+
+  const io = getIoInstance();
+  if (io) {
+    io.to(roomId).emit('roomClosed', { roomId, reason });
+    io.in(roomId).socketsLeave(roomId);
+  }
+  rooms.delete(roomId);
+  incrementCounter('rooms_closed');
+  log.info('Room closed and deleted.', { roomId, reason });
+  return true;
+}
+
+// Closes every room whose lifecycle TTL has run out. Returns how many were closed.
+export function sweepRoomsStore(): number {
+  let closed = 0;
+  for (const room of rooms.list()) {
+    const expiryReason = getRoomExpiryReason(room, hasConnectedParticipants(room.id), ROOM_LIFECYCLE);
+    if (expiryReason && closeRoomStore(room.id, expiryReason)) closed++;
+  }
+  if (closed > 0) log.info(`Room sweeper closed ${closed} room(s).`, { remaining: rooms.list().length });
+  return closed;
+}
+
+// Called once at server startup; restarting it (e.g. after a hot reload) replaces the old sweeper.
+export function startRoomSweeperStore(): void {
+  if (global.housieRoomSweeper) clearInterval(global.housieRoomSweeper);
+  global.housieRoomSweeper = setInterval(sweepRoomsStore, ROOM_LIFECYCLE.sweepIntervalMs);
+  global.housieRoomSweeper.unref?.();
+}
+
+function findParticipant(room: ServerRoom, participantId: string): { id: string; name: string } | undefined {
+  return room.players.find(p => p.id === participantId) || room.spectators?.find(s => s.id === participantId);
+}
+
+export function postChatMessageStore(sender: PlayerIdentity, text: string): ChatMessage | { error: string } {
+  const room = rooms.get(sender.roomId);
+  if (!room) return { error: "Room not found." };
+  const participant = findParticipant(room, sender.playerId);
+  if (!participant) return { error: "You are not in this room." };
+  if (room.mutedIds?.includes(participant.id)) return { error: "You have been muted by the host." };
+
+  const sanitized = sanitizeChatText(text);
+  if ('error' in sanitized) return sanitized;
+  const message = appendChatMessage(room, participant, sanitized.text);
+  rooms.save(room);
+  return message;
+}
+
+export function getChatHistoryStore(roomId: string): ChatMessage[] {
+  return rooms.get(roomId)?.chat || [];
+}
+
+export function sendReactionStore(sender: PlayerIdentity, reaction: string): { senderId: string; senderName: string; reaction: string } | { error: string } {
+  const room = rooms.get(sender.roomId);
+  if (!room) return { error: "Room not found." };
+  const participant = findParticipant(room, sender.playerId);
+  if (!participant) return { error: "You are not in this room." };
+  if (room.mutedIds?.includes(participant.id)) return { error: "You have been muted by the host." };
+  if (!ALLOWED_REACTIONS.includes(reaction)) return { error: "Unsupported reaction." };
+  return { senderId: participant.id, senderName: participant.name, reaction };
+}
+
+export function setParticipantMutedStore(host: PlayerIdentity, targetId: string, muted: boolean): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (targetId === hostId) return { error: "The host cannot mute themselves." };
+  if (!findParticipant(room, targetId)) return { error: "Player not found in this room." };
+
+  const mutedIds = (room.mutedIds || []).filter(id => id !== targetId);
+  room.mutedIds = muted ? [...mutedIds, targetId] : mutedIds;
+  rooms.save(room);
+  log.info(`Host ${muted ? 'muted' : 'unmuted'} a participant.`, { roomId, playerId: targetId, hostId });
+  return room;
+}
+
+// Removes a spectator at any time, or a player outside a running game (they would otherwise keep
+// tickets that may still win). The caller disconnects its sockets. Only that id is blocked: clients choose
+// their own ids, so a kicked participant can come back under a new one.
+export function kickParticipantStore(host: PlayerIdentity, targetId: string): ServerRoom | { error: string } {
+  const { roomId, playerId: hostId } = host;
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  const authError = authorizeHost(room, hostId);
+  if (authError) return { error: authError };
+  if (targetId === hostId) return { error: "The host cannot kick themselves." };
+
+  const player = room.players.find(p => p.id === targetId);
+  if (player) {
+    if (room.isGameStarted && !room.isGameOver) return { error: "Players can only be kicked before the game starts or after it ends." };
+    removePlayer(room, targetId, 'kicked');
+  } else if (room.spectators?.some(s => s.id === targetId)) {
+    room.spectators = room.spectators.filter(s => s.id !== targetId);
+  } else {
+    return { error: "Player not found in this room." };
+  }
+
+  clearPlayerGraceTimer(roomId, targetId);
+  for (const [socketId, session] of Array.from(socketSessions)) {
+    if (session.roomId === roomId && session.playerId === targetId) socketSessions.delete(socketId);
   }
-  rooms.set(roomId, room);
+  room.kickedIds = [...(room.kickedIds || []), targetId];
+  room.mutedIds = (room.mutedIds || []).filter(id => id !== targetId);
+  rooms.save(room);
+  log.info('Host kicked a participant.', { roomId, playerId: targetId, hostId });
   return room;
 }
 
-export function getRoomStateForClient(roomId: string): Omit<Room, 'numberPool'> | undefined {
+// Ends a running game on an administrator's request, settling it as if the last call had been made.
+export function forceEndGameStore(roomId: string, reason: string): ServerRoom | { error: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { error: "Room not found." };
+  if (!room.isGameStarted) return { error: "The game has not started." };
+  if (room.isGameOver) return { error: "The game is already over." };
+
+  stopRoomCallingTimer(roomId, reason);
+  endGame(room);
+  rooms.save(room);
+  log.warn('Game force-ended.', { roomId, reason });
+  return room;
+}
+
+export function listRoomsStore(): ServerRoom[] {
+  return rooms.list();
+}
+
+// Point-in-time counts for the metrics endpoint.
+export function getStoreStatsStore() {
+  const roomsByPhase = { lobby: 0, in_progress: 0, finished: 0 };
+  for (const room of rooms.list()) {
+    if (room.isGameOver) roomsByPhase.finished++;
+    else if (room.isGameStarted) roomsByPhase.in_progress++;
+    else roomsByPhase.lobby++;
+  }
+  return {
+    roomsByPhase,
+    identifiedSockets: socketSessions.size,
+    callTimers: roomCallTimers.size,
+    graceTimers: playerGraceTimers.size,
+  };
+}
+
+// Called once at server startup. Sockets do not survive a restart, so players online at the crash
+// start offline with a fresh grace window; players already offline get what was left of theirs
+// (grace timers lived only in memory). In-progress games resume calling on their old cadence.
+export function recoverRoomsStore(): number {
+  let resumedGames = 0;
+  const now = Date.now();
+  for (const room of rooms.list()) {
+    room.players.forEach(p => {
+      if (p.isOnline || !p.disconnectedAt) p.disconnectedAt = new Date(now);
+      p.isOnline = false;
+      const remaining = Math.max(0, RECONNECT_GRACE_PERIOD - (now - new Date(p.disconnectedAt).getTime()));
+      clearPlayerGraceTimer(room.id, p.id);
+      playerGraceTimers.set(graceTimerKey(room.id, p.id), setTimeout(() => handlePlayerGraceExpired(room.id, p.id), remaining));
+    });
+    room.spectators = []; // Spectators hold no seat and rejoin when they reconnect
+    rooms.save(room);
+
+    if (!isAutoCallingActive(room) || roomCallTimers.has(room.id)) continue;
+    if (armRoomCallingTimer(room.id, getCallInterval(room) - msSinceLastCall(room))) {
+      resumedGames++;
+      log.info('Recovered in-progress game.', { roomId: room.id, calledCount: room.calledNumbers.length });
+    }
+  }
+  return resumedGames;
+}
+
+// Projects the room for one recipient. Players see their own tickets in full and the winning
+// tickets of verified prize claims; spectators and viewer-less projections see no ticket data at all.
+export function getRoomStateForClient(roomId: string, viewer?: PlayerIdentity): ClientRoomState | undefined {
   const room = getRoomStore(roomId);
   if (!room) {
     return undefined;
   }
 
   try {
-    const playersForClient = room.players.map(p => ({
-      id: p.id,
-      name: p.name,
-      isHost: p.isHost,
-      tickets: Array.isArray(p.tickets) ? p.tickets : [], 
-    }));
-
-    const prizeStatusForClient: Record<PrizeType, PrizeClaim | null> = {} as any;
-    const currentPrizeFormat = room.settings?.prizeFormat || DEFAULT_GAME_SETTINGS.prizeFormat;
-    const prizesToConsider = PRIZE_DEFINITIONS[currentPrizeFormat] || Object.values(PRIZE_TYPES);
-
-    prizesToConsider.forEach(prizeKey => {
-      const prize = prizeKey as PrizeType;
+    const isSpectator = !viewer || viewer.role === 'spectator'; // Anonymous projections get no more than a spectator
+    const viewerPlayerId = isSpectator ? undefined : viewer.playerId;
+    const prizeStatusForClient: Partial<Record<PrizeKey, ClientPrizeClaim | null>> = {};
+    const claimedPrizesByPlayer = new Map<string, PrizeKey[]>();
+    getActivePrizes(room.settings).forEach(prize => {
       const claim = room.prizeStatus[prize];
       if (claim) {
+        claim.claimedBy.forEach(playerId => {
+          claimedPrizesByPlayer.set(playerId, [...(claimedPrizesByPlayer.get(playerId) || []), prize]);
+        });
         prizeStatusForClient[prize] = {
           claimedBy: claim.claimedBy,
+          winners: (claim.winners || []).map(winner => ({
+            ...winner,
+            claimedAt: winner.claimedAt ? (typeof winner.claimedAt === 'string' ? winner.claimedAt : new Date(winner.claimedAt).toISOString()) : undefined,
+            ticket: isSpectator ? undefined : room.players.find(p => p.id === winner.playerId)?.tickets[winner.ticketIndex],
+          })),
+          winningCallIndex: claim.winningCallIndex,
+          winningNumber: claim.winningNumber,
           timestamp: claim.timestamp ? (typeof claim.timestamp === 'string' ? claim.timestamp : new Date(claim.timestamp).toISOString()) : undefined,
         };
       } else {
         prizeStatusForClient[prize] = null;
       }
     });
+
+    const openPrizes = getActivePrizes(room.settings).filter(prize => isPrizeOpen(room, prize) && !room.prizeStatus[prize]?.claimedBy.length);
+    const playersForClient: ClientPlayerState[] = room.players.map(p => {
+      const tickets = Array.isArray(p.tickets) ? p.tickets : [];
+      const bogeyRecord = room.bogeys?.[p.id];
+      const cooldownRemaining = bogeyRecord ? bogeyCooldownRemaining(room, bogeyRecord) : 0;
+      return {
+        id: p.id,
+        name: p.name,
+        isHost: p.isHost,
+        tickets: p.id === viewerPlayerId ? tickets : [],
+        ticketCount: tickets.length,
+        claimedPrizes: claimedPrizesByPlayer.get(p.id) || [],
+        bogeys: {
+          count: bogeyRecord?.count || 0,
+          cooldownUntil: cooldownRemaining > 0 ? new Date(Date.now() + cooldownRemaining).toISOString() : undefined,
+          lockedPrizes: bogeyRecord?.lockedPrizes || [],
+          cancelledTickets: bogeyRecord?.cancelledTickets || [],
+        },
+        isOnline: !!p.isOnline,
+        disconnectedAt: p.disconnectedAt ? (typeof p.disconnectedAt === 'string' ? p.disconnectedAt : new Date(p.disconnectedAt).toISOString()) : undefined,
+        ticketProgress: p.id === viewerPlayerId && room.settings.autoClaim && room.isGameStarted ? tickets.map(ticket => {
+          const progress: Partial<Record<PrizeKey, number>> = {};
+          openPrizes.forEach(prize => {
+            const remaining = getNumbersRemaining(room, ticket, prize);
+            if (remaining !== undefined) progress[prize] = remaining;
+          });
+          return progress;
+        }) : undefined,
+      };
+    });
     
     const clientRoomData = {
       id: room.id,
@@ -336,12 +1354,46 @@ export function getRoomStateForClient(roomId: string): Omit<Room, 'numberPool'>
       currentNumber: room.currentNumber,
       calledNumbers: room.calledNumbers,
       prizeStatus: prizeStatusForClient,
+      pot: room.pot || 0,
+      settlement: room.isGameOver ? room.settlement : undefined,
+      fairDraw: room.fairDraw ? {
+        seedCommitment: room.fairDraw.seedCommitment,
+        entropyContributions: room.fairDraw.entropyContributions,
+        serverSeed: room.isGameOver ? room.fairDraw.serverSeed : undefined,
+        drawSeed: room.isGameOver ? room.fairDraw.drawSeed : undefined,
+      } : undefined,
+      spectators: (room.spectators || []).map(s => ({ id: s.id, name: s.name, isOnline: s.isOnline, wantsToPlay: s.wantsToPlay })),
+      mutedIds: room.mutedIds || [],
+      session: {
+        ...(room.session || { round: 1, rounds: [] }),
+        leaderboard: computeLeaderboard(room.session?.rounds || []),
+      },
       lastNumberCalledTimestamp: room.lastNumberCalledTimestamp ? (typeof room.lastNumberCalledTimestamp === 'string' ? room.lastNumberCalledTimestamp : new Date(room.lastNumberCalledTimestamp).toISOString()) : undefined,
     };
     return clientRoomData;
 
   } catch (e) {
-    console.error(`Error preparing room data for client for room ${roomId}:`, e);
+    log.error('Error preparing room data for client.', { roomId, error: e });
     return undefined;
   }
 }
+
+// Sends `eventName` to every socket in the room, each with its own projection of the state.
+export function emitRoomStateToRoom(io: SocketIOServer, roomId: string, eventName: string): void {
+  const socketIds = io.sockets.adapter.rooms.get(roomId);
+  if (!socketIds) return;
+
+  const stateByViewer = new Map<string, ClientRoomState | undefined>();
+  for (const socketId of socketIds) {
+    // The socket's bound identity, not its store session: a socket can be identified (handshake token) before it registers.
+    const socket = io.sockets.sockets.get(socketId);
+    const viewer = socket ? getSocketIdentity(socket, roomId) : undefined;
+    if (!viewer) continue; // Only identified participants are sent room state
+    const viewerKey = `${viewer.role || 'player'}:${viewer.playerId}`;
+    if (!stateByViewer.has(viewerKey)) {
+      stateByViewer.set(viewerKey, getRoomStateForClient(roomId, viewer));
+    }
+    const state = stateByViewer.get(viewerKey);
+    if (state) io.to(socketId).emit(eventName, state);
+  }
+}
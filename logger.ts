@@ -0,0 +1,56 @@
+// Structured logging: one JSON object per line, so logs can be filtered by room, player or socket.
+// HOUSIE_LOG_LEVEL sets the minimum level written (default 'info').
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogContext {
+  roomId?: string;
+  playerId?: string;
+  socketId?: string;
+  event?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  child(context: LogContext): Logger;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function getMinimumLevel(): number {
+  const configured = process.env.HOUSIE_LOG_LEVEL as LogLevel | undefined;
+  return LOG_LEVELS[configured && configured in LOG_LEVELS ? configured : 'info'];
+}
+
+const minimumLevel = getMinimumLevel();
+
+// Errors don't survive JSON.stringify; keep what is useful for debugging.
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  return value;
+}
+
+export function createLogger(component: string, baseContext: LogContext = {}): Logger {
+  const write = (level: LogLevel, message: string, context: LogContext = {}) => {
+    if (LOG_LEVELS[level] < minimumLevel) return;
+    const entry: Record<string, unknown> = { time: new Date().toISOString(), level, component, msg: message };
+    for (const [key, value] of Object.entries({ ...baseContext, ...context })) {
+      if (value !== undefined) entry[key] = serializeValue(value);
+    }
+    const line = JSON.stringify(entry);
+    if (level === 'error' || level === 'warn') console.error(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (message, context) => write('debug', message, context),
+    info: (message, context) => write('info', message, context),
+    warn: (message, context) => write('warn', message, context),
+    error: (message, context) => write('error', message, context),
+    child: context => createLogger(component, { ...baseContext, ...context }),
+  };
+}
@@ -0,0 +1,92 @@
+// In-process counters exposed in the Prometheus text format. Gauges that describe current state
+// (rooms, sockets, timers) are not tracked here; the caller samples them at scrape time.
+
+declare global {
+  // eslint-disable-next-line no-var
+  var housieMetrics: MetricsState | undefined;
+}
+
+export type CounterName =
+  | 'rooms_created'
+  | 'rooms_closed'
+  | 'numbers_called'
+  | 'claims' // Labelled by outcome: won, bogey, rejected, auto
+  | 'bogeys'
+  | 'socket_connections'
+  | 'rate_limited'
+  | 'invalid_payloads';
+
+export interface GaugeSample {
+  name: string;
+  help: string;
+  value: number;
+  labels?: Record<string, string>;
+}
+
+interface MetricsState {
+  counters: Map<string, number>; // `${name}{labels}` -> value
+  recentCallTimes: number[]; // Timestamps of number calls in the last CALL_RATE_WINDOW_MS
+}
+
+const CALL_RATE_WINDOW_MS = 60 * 1000;
+
+const COUNTER_HELP: Record<CounterName, string> = {
+  rooms_created: 'Rooms created.',
+  rooms_closed: 'Rooms closed by the sweeper, an administrator or expiry.',
+  numbers_called: 'Numbers called across all rooms.',
+  claims: 'Prize claims by outcome.',
+  bogeys: 'False prize claims.',
+  socket_connections: 'Socket connections accepted.',
+  rate_limited: 'Socket events dropped by the rate limiter.',
+  invalid_payloads: 'Socket events rejected by payload validation.',
+};
+
+const state: MetricsState = global.housieMetrics || (global.housieMetrics = { counters: new Map(), recentCallTimes: [] });
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) return '';
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function pruneCallTimes(now: number) {
+  const cutoff = now - CALL_RATE_WINDOW_MS;
+  while (state.recentCallTimes.length > 0 && state.recentCallTimes[0] < cutoff) state.recentCallTimes.shift();
+}
+
+export function incrementCounter(name: CounterName, labels?: Record<string, string>, by = 1): void {
+  const key = `${name}${formatLabels(labels)}`;
+  state.counters.set(key, (state.counters.get(key) || 0) + by);
+}
+
+export function recordNumberCall(): void {
+  const now = Date.now();
+  incrementCounter('numbers_called');
+  state.recentCallTimes.push(now);
+  pruneCallTimes(now);
+}
+
+export function getNumberCallsPerSecond(): number {
+  pruneCallTimes(Date.now());
+  return state.recentCallTimes.length / (CALL_RATE_WINDOW_MS / 1000);
+}
+
+export function renderPrometheusMetrics(gauges: GaugeSample[]): string {
+  const lines: string[] = [];
+  for (const name of Object.keys(COUNTER_HELP) as CounterName[]) {
+    lines.push(`# HELP housie_${name}_total ${COUNTER_HELP[name]}`, `# TYPE housie_${name}_total counter`);
+    const series = Array.from(state.counters).filter(([key]) => key === name || key.startsWith(`${name}{`));
+    if (series.length === 0) lines.push(`housie_${name}_total 0`);
+    series.forEach(([key, value]) => lines.push(`housie_${key.replace(name, `${name}_total`)} ${value}`));
+  }
+
+  const seenGauges = new Set<string>();
+  for (const gauge of gauges) {
+    if (!seenGauges.has(gauge.name)) {
+      seenGauges.add(gauge.name);
+      lines.push(`# HELP housie_${gauge.name} ${gauge.help}`, `# TYPE housie_${gauge.name} gauge`);
+    }
+    lines.push(`housie_${gauge.name}${formatLabels(gauge.labels)} ${gauge.value}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
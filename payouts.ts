@@ -0,0 +1,67 @@
+import type { PrizeKey, ServerRoom, PrizeAllocation, GameSettlement, PrizePayout, PlayerSettlement } from '@/lib/server/server-types';
+
+export function evenPrizeAllocation(activePrizes: PrizeKey[]): PrizeAllocation {
+  const allocation: PrizeAllocation = {};
+  activePrizes.forEach(prize => { allocation[prize] = 100 / activePrizes.length; }); // No-op for an empty list
+  return allocation;
+}
+
+// Checks the host's requested percentages against the active prizes. Without a request (or an
+// empty one) the pot is split evenly; anything else must be non-negative and total at most 100%.
+export function resolvePrizeAllocation(activePrizes: PrizeKey[], requested?: unknown): { allocation: PrizeAllocation } | { error: string } {
+  if (requested === undefined || requested === null) return { allocation: evenPrizeAllocation(activePrizes) };
+  if (typeof requested !== 'object' || Array.isArray(requested)) return { error: "Prize allocation must map prizes to percentages." };
+  const entries = Object.entries(requested);
+  if (entries.length === 0) return { allocation: evenPrizeAllocation(activePrizes) };
+
+  const allocation: PrizeAllocation = {};
+  let total = 0;
+  for (const [prize, percentage] of entries) {
+    if (!activePrizes.includes(prize)) return { error: `Prize allocation names '${prize}', which is not a prize in this room.` };
+    if (typeof percentage !== 'number' || !Number.isFinite(percentage) || percentage < 0) {
+      return { error: `Prize allocation for '${prize}' must be a non-negative percentage.` };
+    }
+    allocation[prize] = percentage;
+    total += percentage;
+  }
+  if (total <= 0 || total > 100) return { error: `Prize allocation must total more than 0% and at most 100% of the pot (got ${total}%).` };
+  return { allocation };
+}
+
+// Splits each prize's share of the pot among its co-winners. Amounts are whole units; any
+// remainder from an uneven split goes one unit at a time to the earliest claimants.
+export function computeSettlement(room: ServerRoom, activePrizes: PrizeKey[]): GameSettlement {
+  const pot = room.pot || 0;
+  const allocation = room.settings.prizeAllocation || evenPrizeAllocation(activePrizes);
+  const winningsByPlayer = new Map<string, number>();
+  let paidOut = 0;
+
+  const prizes: PrizePayout[] = activePrizes.map(prizeType => {
+    const percentage = allocation[prizeType] || 0;
+    const amount = Math.floor(pot * percentage / 100);
+    const claim = room.prizeStatus[prizeType];
+    const winners = (claim?.winners?.length ? claim.winners : (claim?.claimedBy || []).map(playerId => ({ playerId, claimedAt: claim?.timestamp })))
+      .slice()
+      .sort((a, b) => new Date(a.claimedAt || 0).getTime() - new Date(b.claimedAt || 0).getTime());
+    if (winners.length === 0) return { prizeType, percentage, amount, winners: [] };
+
+    const baseShare = Math.floor(amount / winners.length);
+    let remainder = amount - baseShare * winners.length;
+    const payouts = winners.map(winner => {
+      const share = baseShare + (remainder > 0 ? 1 : 0);
+      if (remainder > 0) remainder--;
+      winningsByPlayer.set(winner.playerId, (winningsByPlayer.get(winner.playerId) || 0) + share);
+      paidOut += share;
+      return { playerId: winner.playerId, amount: share };
+    });
+    return { prizeType, percentage, amount, winners: payouts };
+  });
+
+  const players: PlayerSettlement[] = room.players.map(p => {
+    const paid = p.amountPaid || 0;
+    const won = winningsByPlayer.get(p.id) || 0;
+    return { playerId: p.id, name: p.name, ticketCount: p.tickets.length, paid, won, net: won - paid };
+  });
+
+  return { pot, prizes, players, unallocated: pot - paidOut };
+}
@@ -0,0 +1,176 @@
+import type { HousieTicketGrid } from '@/types';
+import { PRIZE_TYPES } from '@/types';
+
+// Declarative prize patterns a host can attach to a room. Rows are 0 (top) to 2 (bottom);
+// `index` in a position counts the numbers in that row left to right, negative from the right.
+export type PrizePatternSpec =
+  | { kind: 'rows'; rows: number[]; minRows?: number } // Every number in `minRows` of the listed rows (default: all of them)
+  | { kind: 'positions'; positions: { row: number; index: number }[] } // Specific numbers by their place in a row
+  | { kind: 'cells'; cells: { row: number; col: number }[] } // A grid mask; blank cells in the mask are ignored
+  | { kind: 'count'; count: number }; // Any `count` numbers on the ticket
+
+export interface CustomPrizeDefinition {
+  id: string;
+  name: string;
+  pattern: PrizePatternSpec;
+  endsGame?: boolean; // Claiming it ends the game, like Full House
+}
+
+export interface PatternProgress {
+  complete: boolean;
+  remaining: number; // Numbers still to be called; Infinity when this ticket can never complete it
+}
+
+const TICKET_ROWS = 3;
+const TICKET_COLUMNS = 9;
+const NUMBERS_PER_TICKET = 15;
+const MAX_CUSTOM_PRIZES = 10;
+
+export const PATTERN_PRESETS: Record<string, PrizePatternSpec> = {
+  corners: { kind: 'positions', positions: [{ row: 0, index: 0 }, { row: 0, index: -1 }, { row: 2, index: 0 }, { row: 2, index: -1 }] },
+  star: { kind: 'positions', positions: [{ row: 0, index: 0 }, { row: 0, index: -1 }, { row: 1, index: 2 }, { row: 2, index: 0 }, { row: 2, index: -1 }] },
+  pyramid: {
+    kind: 'positions',
+    positions: [
+      { row: 0, index: 2 },
+      { row: 1, index: 1 }, { row: 1, index: 2 }, { row: 1, index: 3 },
+      { row: 2, index: 0 }, { row: 2, index: 1 }, { row: 2, index: 2 }, { row: 2, index: 3 }, { row: 2, index: 4 },
+    ],
+  },
+  firstSeven: { kind: 'count', count: 7 },
+  anyTwoLines: { kind: 'rows', rows: [0, 1, 2], minRows: 2 },
+};
+
+// Equivalent patterns for the built-in prizes, used to count the numbers a ticket still needs.
+// Whether a built-in prize is won is still decided by checkWinningCondition.
+export const BUILTIN_PRIZE_PATTERNS: Record<string, PrizePatternSpec> = {
+  [PRIZE_TYPES.TOP_LINE]: { kind: 'rows', rows: [0] },
+  [PRIZE_TYPES.MIDDLE_LINE]: { kind: 'rows', rows: [1] },
+  [PRIZE_TYPES.BOTTOM_LINE]: { kind: 'rows', rows: [2] },
+  [PRIZE_TYPES.FULL_HOUSE]: { kind: 'rows', rows: [0, 1, 2] },
+};
+
+function rowNumbers(ticket: HousieTicketGrid, row: number): number[] {
+  const cells = ((ticket as unknown as (number | null)[][])[row] || []);
+  return cells.filter((n): n is number => typeof n === 'number' && n > 0);
+}
+
+function countMissing(numbers: number[], called: Set<number>): number {
+  return numbers.filter(n => !called.has(n)).length;
+}
+
+export function getPatternProgress(ticket: HousieTicketGrid, calledNumbers: number[], pattern: PrizePatternSpec): PatternProgress {
+  const called = new Set(calledNumbers);
+
+  switch (pattern.kind) {
+    case 'rows': {
+      const missingPerRow = pattern.rows.map(row => countMissing(rowNumbers(ticket, row), called)).sort((a, b) => a - b);
+      const remaining = missingPerRow.slice(0, pattern.minRows ?? pattern.rows.length).reduce((sum, n) => sum + n, 0);
+      return { complete: remaining === 0, remaining };
+    }
+    case 'positions': {
+      let remaining = 0;
+      for (const { row, index } of pattern.positions) {
+        const numbers = rowNumbers(ticket, row);
+        const n = numbers[index < 0 ? numbers.length + index : index];
+        if (n === undefined) return { complete: false, remaining: Infinity };
+        if (!called.has(n)) remaining++;
+      }
+      return { complete: remaining === 0, remaining };
+    }
+    case 'cells': {
+      const grid = ticket as unknown as (number | null)[][];
+      const numbers = pattern.cells
+        .map(({ row, col }) => grid[row]?.[col])
+        .filter((n): n is number => typeof n === 'number' && n > 0);
+      if (numbers.length === 0) return { complete: false, remaining: Infinity };
+      const remaining = countMissing(numbers, called);
+      return { complete: remaining === 0, remaining };
+    }
+    case 'count': {
+      const marked = [0, 1, 2].reduce((sum, row) => sum + rowNumbers(ticket, row).filter(n => called.has(n)).length, 0);
+      const remaining = Math.max(0, pattern.count - marked);
+      return { complete: remaining === 0, remaining };
+    }
+  }
+}
+
+export function matchesPrizePattern(ticket: HousieTicketGrid, calledNumbers: number[], pattern: PrizePatternSpec): boolean {
+  return getPatternProgress(ticket, calledNumbers, pattern).complete;
+}
+
+const RESERVED_PRIZE_IDS = ['__proto__', 'constructor', 'prototype']; // Would collide with Object internals when used as a key
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyListOf<T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isItem);
+}
+
+const isRow = (value: unknown): value is number => isInteger(value, 0, TICKET_ROWS - 1);
+const isPosition = (value: unknown): value is { row: number; index: number } =>
+  isRecord(value) && isRow(value.row) && isInteger(value.index, -5, 4);
+const isCell = (value: unknown): value is { row: number; col: number } =>
+  isRecord(value) && isRow(value.row) && isInteger(value.col, 0, TICKET_COLUMNS - 1);
+
+// Returns the pattern rebuilt from only its known fields, or a description of the problem.
+function parsePattern(pattern: unknown): PrizePatternSpec | { error: string } {
+  if (!isRecord(pattern)) return { error: "Pattern must be an object." };
+  switch (pattern.kind) {
+    case 'rows': {
+      const { rows, minRows } = pattern;
+      if (!isNonEmptyListOf(rows, isRow)) return { error: "'rows' patterns need a non-empty list of rows between 0 and 2." };
+      if (new Set(rows).size !== rows.length) return { error: "'rows' patterns cannot repeat a row." };
+      if (minRows !== undefined && !isInteger(minRows, 1, rows.length)) {
+        return { error: "'minRows' must be between 1 and the number of listed rows." };
+      }
+      return minRows === undefined ? { kind: 'rows', rows } : { kind: 'rows', rows, minRows };
+    }
+    case 'positions':
+      if (!isNonEmptyListOf(pattern.positions, isPosition)) return { error: "'positions' patterns need a list of { row: 0-2, index: -5..4 }." };
+      return { kind: 'positions', positions: pattern.positions.map(({ row, index }) => ({ row, index })) };
+    case 'cells':
+      if (!isNonEmptyListOf(pattern.cells, isCell)) return { error: "'cells' patterns need a list of { row: 0-2, col: 0-8 }." };
+      return { kind: 'cells', cells: pattern.cells.map(({ row, col }) => ({ row, col })) };
+    case 'count':
+      if (!isInteger(pattern.count, 1, NUMBERS_PER_TICKET)) return { error: `'count' patterns need a count between 1 and ${NUMBERS_PER_TICKET}.` };
+      return { kind: 'count', count: pattern.count };
+    default:
+      return { error: "Pattern kind must be one of 'rows', 'positions', 'cells' or 'count'." };
+  }
+}
+
+// Validates host-supplied prize definitions. A definition may name a preset (`preset: 'corners'`)
+// instead of spelling out the pattern.
+export function validateCustomPrizes(definitions: unknown, reservedIds: string[]): { prizes: CustomPrizeDefinition[] } | { error: string } {
+  if (definitions === undefined) return { prizes: [] };
+  if (!Array.isArray(definitions)) return { error: "Custom prizes must be a list." };
+  if (definitions.length > MAX_CUSTOM_PRIZES) return { error: `At most ${MAX_CUSTOM_PRIZES} custom prizes are allowed.` };
+
+  const prizes: CustomPrizeDefinition[] = [];
+  for (const definition of definitions as unknown[]) {
+    if (!isRecord(definition)) return { error: "Each custom prize must be an object." };
+    const { id } = definition;
+    if (typeof id !== 'string' || !/^[a-z0-9_-]{1,32}$/i.test(id)) return { error: "Custom prize ids must be 1-32 letters, digits, '-' or '_'." };
+    if (RESERVED_PRIZE_IDS.includes(id) || reservedIds.includes(id) || prizes.some(p => p.id === id)) {
+      return { error: `Custom prize id '${id}' is already in use.` };
+    }
+    const name = typeof definition.name === 'string' ? definition.name.trim().slice(0, 40) : '';
+    if (!name) return { error: `Custom prize '${id}' needs a name.` };
+
+    const { preset } = definition;
+    const rawPattern = typeof preset === 'string' ? (Object.prototype.hasOwnProperty.call(PATTERN_PRESETS, preset) ? PATTERN_PRESETS[preset] : undefined) : definition.pattern;
+    if (!rawPattern) return { error: `Unknown pattern preset '${String(preset)}' for custom prize '${id}'.` };
+    const pattern = parsePattern(rawPattern);
+    if ('error' in pattern) return { error: `Custom prize '${id}': ${pattern.error}` };
+
+    prizes.push({ id, name, pattern, endsGame: definition.endsGame === true });
+  }
+  return { prizes };
+}
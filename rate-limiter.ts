@@ -0,0 +1,109 @@
+import { createLogger } from '@/lib/server/logger';
+
+// Token-bucket rate limiting for socket events. Each key (a socket or a player, per event)
+// holds up to `capacity` tokens and regains `refillPerSecond`; an event costs one token.
+
+export interface RateLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketLimiter {
+  take(key: string, limit: RateLimit): boolean;
+  forget(keyPrefix: string): void;
+  prune(): void;
+}
+
+const log = createLogger('rate-limiter');
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: RateLimit;
+}
+
+// Applies to any event without its own entry in HOUSIE_RATE_LIMITS.
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 5 };
+
+const BUILTIN_RATE_LIMITS: Record<string, RateLimit> = {
+  joinRoom: { capacity: 5, refillPerSecond: 0.5 },
+  joinAsSpectator: { capacity: 5, refillPerSecond: 0.5 },
+  claimPrize: { capacity: 5, refillPerSecond: 1 },
+  contributeEntropy: { capacity: 3, refillPerSecond: 0.2 },
+  requestReplay: { capacity: 3, refillPerSecond: 0.2 },
+  requestAudit: { capacity: 3, refillPerSecond: 0.2 },
+  chatMessage: { capacity: 5, refillPerSecond: 1 },
+  reaction: { capacity: 10, refillPerSecond: 2 },
+};
+
+function parseLimit(value: unknown): RateLimit | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { capacity, refillPerSecond } = value as Record<string, unknown>;
+  if (typeof capacity !== 'number' || !Number.isFinite(capacity) || capacity < 1) return undefined;
+  if (typeof refillPerSecond !== 'number' || !Number.isFinite(refillPerSecond) || refillPerSecond <= 0) return undefined;
+  return { capacity, refillPerSecond };
+}
+
+// HOUSIE_RATE_LIMITS is a JSON object of event name (or "default") -> { capacity, refillPerSecond }.
+export function getRateLimits(): { byEvent: Record<string, RateLimit>; fallback: RateLimit } {
+  const byEvent = { ...BUILTIN_RATE_LIMITS };
+  let fallback = DEFAULT_RATE_LIMIT;
+  if (process.env.HOUSIE_RATE_LIMITS) {
+    try {
+      const overrides: unknown = JSON.parse(process.env.HOUSIE_RATE_LIMITS);
+      const entries = typeof overrides === 'object' && overrides !== null ? Object.entries(overrides) : [];
+      for (const [eventName, value] of entries) {
+        const limit = parseLimit(value);
+        if (!limit) {
+          log.warn(`HOUSIE_RATE_LIMITS: Ignoring invalid limit for "${eventName}".`);
+        } else if (eventName === 'default') {
+          fallback = limit;
+        } else {
+          byEvent[eventName] = limit;
+        }
+      }
+    } catch {
+      log.warn('HOUSIE_RATE_LIMITS is not valid JSON. Using the default rate limits.');
+    }
+  }
+  return { byEvent, fallback };
+}
+
+export function createTokenBucketLimiter(): TokenBucketLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, now: number) => {
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(bucket.limit.capacity, bucket.tokens + elapsedSeconds * bucket.limit.refillPerSecond);
+    bucket.updatedAt = now;
+  };
+
+  return {
+    take(key, limit) {
+      const now = Date.now();
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: limit.capacity, updatedAt: now, limit };
+        buckets.set(key, bucket);
+      } else {
+        refill(bucket, now);
+      }
+      if (bucket.tokens < 1) return false;
+      bucket.tokens -= 1;
+      return true;
+    },
+    forget(keyPrefix) {
+      for (const key of Array.from(buckets.keys())) {
+        if (key.startsWith(keyPrefix)) buckets.delete(key);
+      }
+    },
+    // Full buckets carry no state worth keeping.
+    prune() {
+      const now = Date.now();
+      for (const [key, bucket] of Array.from(buckets)) {
+        refill(bucket, now);
+        if (bucket.tokens >= bucket.limit.capacity) buckets.delete(key);
+      }
+    },
+  };
+}
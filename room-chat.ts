@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import type { ServerRoom } from '@/lib/server/server-types';
+
+// Room-scoped chat. Messages are kept on the room (so they persist with it) but only the most
+// recent CHAT_HISTORY_LIMIT are retained; reactions are broadcast and never stored.
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  at: Date | string;
+}
+
+export const CHAT_HISTORY_LIMIT = 50;
+export const MAX_CHAT_MESSAGE_LENGTH = 280;
+export const ALLOWED_REACTIONS = ['👏', '🎉', '😂', '😮', '😢', '🔥', '👍', '❤️'];
+
+const BLOCKED_WORDS = ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'slut', 'whore'];
+
+function getBlockedWordsPattern(): RegExp {
+  const extraWords = (process.env.HOUSIE_CHAT_BLOCKLIST || '').split(',').map(w => w.trim().toLowerCase()).filter(Boolean);
+  const escaped = [...BLOCKED_WORDS, ...extraWords].map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi'); // Whole words only, so "shitake" stays intact
+}
+
+const blockedWordsPattern = getBlockedWordsPattern();
+
+// Collapses whitespace, enforces the length limit and masks blocked words.
+export function sanitizeChatText(text: string): { text: string } | { error: string } {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return { error: "Message cannot be empty." };
+  if (collapsed.length > MAX_CHAT_MESSAGE_LENGTH) return { error: `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters.` };
+  return { text: collapsed.replace(blockedWordsPattern, word => '*'.repeat(word.length)) };
+}
+
+export function appendChatMessage(room: ServerRoom, sender: { id: string; name: string }, text: string): ChatMessage {
+  const message: ChatMessage = { id: crypto.randomUUID(), senderId: sender.id, senderName: sender.name, text, at: new Date() };
+  room.chat = [...(room.chat || []), message].slice(-CHAT_HISTORY_LIMIT); // Rooms persisted before chat existed have none
+  return message;
+}
@@ -0,0 +1,130 @@
+import type { CallMode, PrizeKey, ServerRoom } from '@/lib/server/server-types';
+
+// Append-only, timestamped log of what happened in a room. Events are stored on the room
+// itself so they persist and are replayed with it; `seq` is gap-free within a room.
+
+// The payload recorded for each event type.
+export interface RoomEventPayloads {
+  roomCreated: { hostId: string; hostName: string; seedCommitment: string };
+  playerJoined: { playerId: string; name: string };
+  playerLeft: { playerId: string; reason: 'disconnect' | 'kicked'; refunded: boolean };
+  spectatorJoined: { spectatorId: string; name: string };
+  spectatorPromoted: { spectatorId: string; name: string; hostId: string };
+  ticketsPurchased: { playerId: string; count: number; cost: number };
+  hostChanged: { previousHostId: string; newHostId: string; reason: 'disconnect' };
+  newRound: { round: number; hostId: string; seedCommitment?: string };
+  gameStarted: { round: number; hostId: string; players: { playerId: string; ticketCount: number }[]; callMode: CallMode };
+  gamePaused: { hostId: string };
+  gameResumed: { hostId: string };
+  numberCalled: { number: number; callIndex: number };
+  prizeClaimed: { prizeType: PrizeKey; playerId: string; ticketIndex: number; callIndex: number; number: number };
+  bogey: { playerId: string; prizeType: PrizeKey; ticketIndex: number; count: number; penalties: string[] };
+  gameOver: { calls: number; pot: number };
+}
+
+export type RoomEventType = keyof RoomEventPayloads;
+
+export type RoomEvent = {
+  [T in RoomEventType]: { seq: number; type: T; at: Date | string; data: RoomEventPayloads[T] };
+}[RoomEventType];
+
+export interface ReconstructedRoomState {
+  hostId?: string;
+  players: { id: string; name: string; ticketCount: number; amountPaid: number; bogeys: number }[];
+  pot: number;
+  isGameStarted: boolean;
+  isGameOver: boolean;
+  calledNumbers: number[];
+  prizeWinners: Partial<Record<PrizeKey, { playerId: string; ticketIndex: number; callIndex: number }[]>>;
+  lastSeq: number;
+}
+
+export function appendRoomEvent<T extends RoomEventType>(room: ServerRoom, type: T, data: RoomEventPayloads[T]): RoomEvent {
+  const eventLog = room.eventLog || (room.eventLog = []); // Rooms persisted before the log existed
+  const event = { seq: eventLog.length + 1, type, at: new Date(), data } as RoomEvent;
+  eventLog.push(event);
+  return event;
+}
+
+// Folds the log into the facts it records. Used to check a disputed game against the live room.
+export function reconstructRoomStateFromLog(events: RoomEvent[]): ReconstructedRoomState {
+  const players = new Map<string, ReconstructedRoomState['players'][number]>();
+  const state: ReconstructedRoomState = {
+    players: [],
+    pot: 0,
+    isGameStarted: false,
+    isGameOver: false,
+    calledNumbers: [],
+    prizeWinners: {},
+    lastSeq: 0,
+  };
+
+  for (const event of events) {
+    state.lastSeq = event.seq;
+    switch (event.type) {
+      case 'roomCreated':
+        state.hostId = event.data.hostId;
+        players.set(event.data.hostId, { id: event.data.hostId, name: event.data.hostName, ticketCount: 0, amountPaid: 0, bogeys: 0 });
+        break;
+      case 'playerJoined':
+        if (!players.has(event.data.playerId)) {
+          players.set(event.data.playerId, { id: event.data.playerId, name: event.data.name, ticketCount: 0, amountPaid: 0, bogeys: 0 });
+        }
+        break;
+      case 'spectatorPromoted':
+        players.set(event.data.spectatorId, { id: event.data.spectatorId, name: event.data.name, ticketCount: 0, amountPaid: 0, bogeys: 0 });
+        break;
+      case 'playerLeft': {
+        const player = players.get(event.data.playerId);
+        if (player && event.data.refunded) state.pot -= player.amountPaid;
+        players.delete(event.data.playerId);
+        break;
+      }
+      case 'ticketsPurchased': {
+        const player = players.get(event.data.playerId);
+        if (player) {
+          player.ticketCount = event.data.count;
+          player.amountPaid += event.data.cost || 0;
+        }
+        state.pot += event.data.cost || 0;
+        break;
+      }
+      case 'newRound':
+        // Players stay; tickets, the pot and the board are cleared for the next round.
+        state.isGameStarted = false;
+        state.isGameOver = false;
+        state.calledNumbers = [];
+        state.prizeWinners = {};
+        state.pot = 0;
+        players.forEach(p => { p.ticketCount = 0; p.amountPaid = 0; p.bogeys = 0; });
+        break;
+      case 'hostChanged':
+        state.hostId = event.data.newHostId;
+        break;
+      case 'gameStarted':
+        state.isGameStarted = true;
+        state.isGameOver = false;
+        state.calledNumbers = [];
+        state.prizeWinners = {};
+        players.forEach(p => { p.bogeys = 0; });
+        break;
+      case 'numberCalled':
+        state.calledNumbers.push(event.data.number);
+        break;
+      case 'prizeClaimed':
+        (state.prizeWinners[event.data.prizeType] ||= []).push({ playerId: event.data.playerId, ticketIndex: event.data.ticketIndex, callIndex: event.data.callIndex });
+        break;
+      case 'bogey': {
+        const player = players.get(event.data.playerId);
+        if (player) player.bogeys++;
+        break;
+      }
+      case 'gameOver':
+        state.isGameOver = true;
+        break;
+    }
+  }
+
+  state.players = Array.from(players.values());
+  return state;
+}
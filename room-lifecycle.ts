@@ -0,0 +1,57 @@
+import type { ServerRoom } from '@/lib/server/server-types';
+
+// When idle rooms are closed. Every TTL is measured from the room's last recorded activity
+// in its current phase, so a busy room is never swept.
+
+export interface RoomLifecycleConfig {
+  lobbyTtlMs: number; // Not started yet
+  abandonedGameTtlMs: number; // In progress with nobody connected
+  finishedRoomTtlMs: number; // Game over, waiting for a possible next round
+  maxRooms: number;
+  sweepIntervalMs: number;
+}
+
+const positive = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+export function getRoomLifecycleConfig(): RoomLifecycleConfig {
+  return {
+    lobbyTtlMs: positive(process.env.HOUSIE_LOBBY_TTL_MS, 24 * 60 * 60 * 1000),
+    abandonedGameTtlMs: positive(process.env.HOUSIE_ABANDONED_GAME_TTL_MS, 30 * 60 * 1000),
+    finishedRoomTtlMs: positive(process.env.HOUSIE_FINISHED_ROOM_TTL_MS, 2 * 60 * 60 * 1000),
+    maxRooms: positive(process.env.HOUSIE_MAX_ROOMS, 1000),
+    sweepIntervalMs: positive(process.env.HOUSIE_ROOM_SWEEP_INTERVAL_MS, 60 * 1000),
+  };
+}
+
+function toTime(value: Date | string | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+// The latest thing that happened in the room: an event, a number call or a player dropping off.
+export function lastRoomActivity(room: ServerRoom): number {
+  const lastEvent = room.eventLog?.[room.eventLog.length - 1];
+  return Math.max(
+    toTime(room.createdAt),
+    toTime(lastEvent?.at),
+    toTime(room.lastNumberCalledTimestamp),
+    ...room.players.map(p => toTime(p.disconnectedAt)),
+  );
+}
+
+// Returns why the room should be closed, or undefined while it is still live.
+export function getRoomExpiryReason(room: ServerRoom, hasConnectedParticipants: boolean, config: RoomLifecycleConfig, now = Date.now()): string | undefined {
+  const idleMs = now - lastRoomActivity(room);
+  if (room.isGameOver) {
+    return idleMs > config.finishedRoomTtlMs ? "Room closed after the game finished." : undefined;
+  }
+  if (!room.isGameStarted) {
+    return idleMs > config.lobbyTtlMs ? "Room expired due to prolonged inactivity before start." : undefined;
+  }
+  if (hasConnectedParticipants) return undefined;
+  // Auto-calling keeps logging numbers in an empty room, so only disconnects count as activity here.
+  const lastSeen = Math.max(toTime(room.createdAt), ...room.players.map(p => toTime(p.disconnectedAt)));
+  return now - lastSeen > config.abandonedGameTtlMs ? "Game abandoned: no players connected." : undefined;
+}
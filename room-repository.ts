@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import type { ServerRoom } from '@/lib/server/server-types';
+import { createLogger } from '@/lib/server/logger';
+
+const log = createLogger('room-repository');
+
+// Storage abstraction for rooms. The game store mutates room objects in place and
+// calls `save` after every change, so implementations must treat `save` as the
+// point where a room's current state becomes durable.
+export interface RoomRepository {
+  get(roomId: string): ServerRoom | undefined;
+  has(roomId: string): boolean;
+  save(room: ServerRoom): void;
+  delete(roomId: string): void;
+  list(): ServerRoom[];
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var housieRoomRepository: RoomRepository | undefined;
+}
+
+export function createInMemoryRoomRepository(rooms: Map<string, ServerRoom> = new Map()): RoomRepository {
+  return {
+    get: (roomId) => rooms.get(roomId),
+    has: (roomId) => rooms.has(roomId),
+    save: (room) => { rooms.set(room.id, room); },
+    delete: (roomId) => { rooms.delete(roomId); },
+    list: () => Array.from(rooms.values()),
+  };
+}
+
+// Keeps every room in memory for fast reads and writes each room through to its own
+// JSON file. Dates come back as ISO strings after a reload, which the store already tolerates.
+export function createFileRoomRepository(directory: string, rooms: Map<string, ServerRoom> = new Map()): RoomRepository {
+  fs.mkdirSync(directory, { recursive: true });
+  const fileFor = (roomId: string) => path.join(directory, `${encodeURIComponent(roomId)}.json`);
+
+  for (const fileName of fs.readdirSync(directory)) {
+    if (!fileName.endsWith('.json')) continue;
+    try {
+      const room = JSON.parse(fs.readFileSync(path.join(directory, fileName), 'utf8')) as ServerRoom;
+      if (room?.id) rooms.set(room.id, room);
+    } catch (e) {
+      log.error(`Failed to load ${fileName}, skipping.`, { error: e });
+    }
+  }
+  log.info(`Loaded ${rooms.size} room(s) from ${directory}.`);
+
+  return {
+    get: (roomId) => rooms.get(roomId),
+    has: (roomId) => rooms.has(roomId),
+    save: (room) => {
+      rooms.set(room.id, room);
+      const target = fileFor(room.id);
+      const tempFile = `${target}.tmp`;
+      try {
+        fs.writeFileSync(tempFile, JSON.stringify(room));
+        fs.renameSync(tempFile, target); // Atomic replace so a crash never leaves a half-written room
+      } catch (e) {
+        log.error('Failed to persist room.', { roomId: room.id, error: e });
+      }
+    },
+    delete: (roomId) => {
+      rooms.delete(roomId);
+      try {
+        fs.rmSync(fileFor(roomId), { force: true });
+      } catch (e) {
+        log.error('Failed to delete persisted room.', { roomId, error: e });
+      }
+    },
+    list: () => Array.from(rooms.values()),
+  };
+}
+
+// The directory rooms are persisted to, or undefined when rooms only live in memory.
+export function getRoomStoreDirectory(): string | undefined {
+  if ((process.env.HOUSIE_ROOM_STORE || 'memory') !== 'file') return undefined;
+  return process.env.HOUSIE_ROOM_STORE_DIR || path.join(process.cwd(), '.housie-rooms');
+}
+
+export function getRoomRepository(): RoomRepository {
+  if (!global.housieRoomRepository) {
+    const rooms = global.housieRooms || (global.housieRooms = new Map<string, ServerRoom>());
+    const directory = getRoomStoreDirectory();
+    if (directory) {
+      global.housieRoomRepository = createFileRoomRepository(directory, rooms);
+    } else {
+      global.housieRoomRepository = createInMemoryRoomRepository(rooms);
+    }
+  }
+  return global.housieRoomRepository;
+}
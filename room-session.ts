@@ -0,0 +1,55 @@
+import type { ServerRoom, PrizeKey, RoundResult, LeaderboardEntry } from '@/lib/server/server-types';
+
+// A room hosts a session of consecutive rounds. Each finished round is archived here and the
+// leaderboard is always derived from the archive, so re-settling a round never double-counts.
+
+export function archiveRound(room: ServerRoom, startedAt?: Date | string): RoundResult {
+  const session = room.session || (room.session = { round: 1, rounds: [] }); // Rooms persisted before sessions existed
+  const settlement = room.settlement;
+
+  const prizes = Object.entries(room.prizeStatus)
+    .filter(([, claim]) => claim && claim.claimedBy.length > 0)
+    .map(([prizeType, claim]) => ({ prizeType: prizeType as PrizeKey, winners: [...claim!.claimedBy] }));
+
+  const result: RoundResult = {
+    round: session.round,
+    startedAt,
+    endedAt: new Date(),
+    calledCount: room.calledNumbers.length,
+    pot: settlement?.pot || 0,
+    prizes,
+    players: room.players
+      .filter(p => p.tickets.length > 0)
+      .map(p => {
+        const playerSettlement = settlement?.players.find(s => s.playerId === p.id);
+        return {
+          playerId: p.id,
+          name: p.name,
+          prizesWon: prizes.filter(prize => prize.winners.includes(p.id)).length,
+          paid: playerSettlement?.paid || 0,
+          won: playerSettlement?.won || 0,
+          bogeys: room.bogeys?.[p.id]?.count || 0,
+        };
+      }),
+  };
+
+  session.rounds = [...session.rounds.filter(r => r.round !== result.round), result];
+  return result;
+}
+
+export function computeLeaderboard(rounds: RoundResult[]): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+  for (const round of rounds) {
+    for (const p of round.players) {
+      const entry = entries.get(p.playerId) || { playerId: p.playerId, name: p.name, roundsPlayed: 0, prizesWon: 0, winnings: 0, net: 0, bogeys: 0 };
+      entry.name = p.name;
+      entry.roundsPlayed += 1;
+      entry.prizesWon += p.prizesWon;
+      entry.winnings += p.won;
+      entry.net += p.won - p.paid;
+      entry.bogeys += p.bogeys;
+      entries.set(p.playerId, entry);
+    }
+  }
+  return Array.from(entries.values()).sort((a, b) => b.winnings - a.winnings || b.prizesWon - a.prizesWon || a.bogeys - b.bogeys);
+}
@@ -0,0 +1,230 @@
+import type { Room, BackendPlayerInRoom, GameSettings, PrizeType, PrizeClaim, HousieTicketGrid } from '@/types';
+import type { CustomPrizeDefinition } from '@/lib/server/prize-patterns';
+import type { EntropyContribution } from '@/lib/server/fair-draw';
+import type { RoomEvent } from '@/lib/server/room-events';
+import type { ChatMessage } from '@/lib/server/room-chat';
+
+// Server-side extensions of the shared room types. Fields here are tracked by the
+// game store and projected to clients through getRoomStateForClient.
+
+export type CallMode = 'auto' | 'manual';
+
+// A built-in prize type or the id of one of the room's custom prizes.
+export type PrizeKey = PrizeType | (string & {});
+
+// Penalties applied when a player makes an invalid claim (a "bogey"). Zero disables a rule.
+export interface ClaimRules {
+  bogeyCooldownMs: number; // No further claims from the player for this long after a bogey
+  lockoutPrizeOnBogey: boolean; // A bogey on a prize bars the player from that prize for the game
+  cancelTicketAfterBogeys: number; // Once a player reaches this many bogeys, the offending ticket is cancelled
+  enforceClaimWindow: boolean; // Claims must be made before the number after the completing call
+  claimGracePeriodMs: number; // Valid claims for the same completing call within this window of the first are shared
+}
+
+// Percentage of the pot paid out for each prize in the room's active prize format.
+export type PrizeAllocation = Partial<Record<PrizeKey, number>>;
+
+export interface ServerGameSettings extends GameSettings {
+  callMode: CallMode; // 'auto' calls on a server timer, 'manual' waits for the host
+  callIntervalMs: number;
+  isPaused: boolean;
+  claimRules: ClaimRules;
+  ticketPrice: number; // Whole points/currency units per ticket; 0 means free play
+  prizeAllocation: PrizeAllocation;
+  customPrizes: CustomPrizeDefinition[]; // Played alongside the prizes of the chosen prize format
+  autoClaim: boolean; // The server awards prizes itself after each call
+  maxTicketsPerPlayer: number;
+}
+
+export interface ServerPlayerInRoom extends BackendPlayerInRoom {
+  isOnline: boolean;
+  disconnectedAt?: Date | string;
+  amountPaid?: number; // Total spent on tickets this game
+}
+
+// Watches the room without tickets. Spectators are not seats: they never count against lobbySize.
+export interface Spectator {
+  id: string;
+  name: string;
+  joinedAt: Date | string;
+  isOnline: boolean;
+  wantsToPlay: boolean; // Asked the host to be promoted to a player for the next round
+}
+
+export interface PrizeWinner {
+  playerId: string;
+  ticketIndex: number;
+  claimedAt?: Date | string;
+}
+
+export interface ServerPrizeClaim extends PrizeClaim {
+  winners?: PrizeWinner[]; // Which ticket won, so it can be revealed to the room
+  winningCallIndex?: number; // Index into calledNumbers of the call that completed the pattern
+  winningNumber?: number;
+}
+
+export interface PlayerBogeyRecord {
+  count: number;
+  lastBogeyAt?: Date | string;
+  lockedPrizes: PrizeKey[];
+  cancelledTickets: number[];
+}
+
+export interface BogeyEvent {
+  playerId: string;
+  playerName: string;
+  prizeType: PrizeKey;
+  ticketIndex: number;
+  count: number;
+  penalties: string[];
+}
+
+export interface PrizePayout {
+  prizeType: PrizeKey;
+  percentage: number;
+  amount: number; // Allocated from the pot; 0 winners leaves it unallocated
+  winners: { playerId: string; amount: number }[];
+}
+
+export interface PlayerSettlement {
+  playerId: string;
+  name: string;
+  ticketCount: number;
+  paid: number;
+  won: number;
+  net: number;
+}
+
+export interface GameSettlement {
+  pot: number;
+  prizes: PrizePayout[];
+  players: PlayerSettlement[];
+  unallocated: number; // Unclaimed prizes and allocation rounding kept out of the payouts
+}
+
+export interface AutoClaimAward {
+  prizeType: PrizeKey;
+  playerId: string;
+  playerName: string;
+  ticketIndex: number;
+  callIndex: number;
+  number: number;
+}
+
+export interface FairDrawState {
+  serverSeed: string; // Secret until the game is over
+  seedCommitment: string; // SHA-256 of serverSeed, public from room creation
+  entropyContributions: EntropyContribution[];
+  drawSeed?: string; // Fixed when the game starts, secret until the game is over
+}
+
+// Everything needed to recompute a finished game's tickets and call sequence.
+export interface AuditBundle {
+  roomId: string;
+  algorithm: string;
+  seedCommitment: string;
+  serverSeed: string;
+  entropyContributions: EntropyContribution[];
+  drawSeed: string;
+  numberRange: { min: number; max: number };
+  calledNumbers: number[];
+  fullDrawOrder: number[];
+  tickets: { playerId: string; name: string; tickets: HousieTicketGrid[] }[];
+}
+
+export interface RoundResult {
+  round: number;
+  startedAt?: Date | string;
+  endedAt: Date | string;
+  calledCount: number;
+  pot: number;
+  prizes: { prizeType: PrizeKey; winners: string[] }[];
+  players: { playerId: string; name: string; prizesWon: number; paid: number; won: number; bogeys: number }[];
+}
+
+export interface LeaderboardEntry {
+  playerId: string;
+  name: string;
+  roundsPlayed: number;
+  prizesWon: number;
+  winnings: number;
+  net: number;
+  bogeys: number;
+}
+
+export interface RoomSession {
+  round: number; // 1-based number of the current (or just finished) round
+  roundStartedAt?: Date | string;
+  rounds: RoundResult[]; // Archived results of finished rounds
+}
+
+export interface ServerRoom extends Omit<Room, 'players' | 'settings' | 'prizeStatus'> {
+  players: ServerPlayerInRoom[];
+  settings: ServerGameSettings;
+  prizeStatus: Partial<Record<PrizeKey, ServerPrizeClaim | null>>; // Only the room's active prizes have entries
+  bogeys: Record<string, PlayerBogeyRecord>; // Keyed by player id, reset when a game starts
+  pot: number;
+  settlement?: GameSettlement; // Set once the game is over
+  fairDraw?: FairDrawState; // Missing on rooms persisted before seeded draws
+  eventLog: RoomEvent[];
+  session: RoomSession;
+  spectators: Spectator[];
+  chat: ChatMessage[]; // Most recent messages only
+  mutedIds: string[]; // Players or spectators the host has muted
+  kickedIds: string[]; // Removed by the host; these ids cannot rejoin, though the client may pick a new one
+}
+
+// What a single recipient sees: their own tickets in full, everyone else's only as a
+// count, plus the tickets attached to verified prize claims.
+export interface ClientPlayerState {
+  id: string;
+  name: string;
+  isHost: boolean;
+  tickets: HousieTicketGrid[];
+  ticketCount: number;
+  claimedPrizes: PrizeKey[];
+  bogeys: {
+    count: number;
+    cooldownUntil?: string;
+    lockedPrizes: PrizeKey[];
+    cancelledTickets: number[];
+  };
+  isOnline: boolean;
+  disconnectedAt?: string;
+  ticketProgress?: Partial<Record<PrizeKey, number>>[]; // Viewer only: numbers still needed per open prize, per ticket
+}
+
+export interface ClientPrizeWinner extends PrizeWinner {
+  claimedAt?: string;
+  ticket?: HousieTicketGrid;
+}
+
+export interface ClientPrizeClaim extends PrizeClaim {
+  winners: ClientPrizeWinner[];
+  winningCallIndex?: number;
+  winningNumber?: number;
+}
+
+export interface ClientRoomState extends Omit<ServerRoom, 'numberPool' | 'players' | 'prizeStatus' | 'bogeys' | 'fairDraw' | 'eventLog' | 'session' | 'spectators' | 'chat' | 'kickedIds'> {
+  players: ClientPlayerState[];
+  spectators: { id: string; name: string; isOnline: boolean; wantsToPlay: boolean }[];
+  session: RoomSession & { leaderboard: LeaderboardEntry[] };
+  prizeStatus: Partial<Record<PrizeKey, ClientPrizeClaim | null>>;
+  fairDraw?: {
+    seedCommitment: string;
+    entropyContributions: EntropyContribution[];
+    serverSeed?: string; // Revealed at game over
+    drawSeed?: string; // Revealed at game over
+  };
+}
+
+export type ParticipantRole = 'player' | 'spectator';
+
+// A player identity that has been verified from a signed session token.
+export interface PlayerIdentity {
+  roomId: string;
+  playerId: string; // For spectators, their spectator id
+  role?: ParticipantRole; // Absent means 'player'
+}
+
+export type SocketSession = PlayerIdentity;
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Socket } from 'socket.io';
+import type { PlayerIdentity } from '@/lib/server/server-types';
+import { getRoomStoreDirectory } from '@/lib/server/room-repository';
+import { createLogger } from '@/lib/server/logger';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var housieSessionSecret: string | undefined;
+}
+
+const SESSION_TOKEN_TTL = Number(process.env.HOUSIE_SESSION_TTL_MS) || 24 * 60 * 60 * 1000;
+const log = createLogger('session-auth');
+
+const SESSION_SECRET_FILE = 'session-secret.key';
+
+// Rooms in the file store outlive the process, so their players' tokens must too: without an
+// explicit secret, one is generated once and kept next to the persisted rooms.
+function loadOrCreatePersistedSecret(directory: string): string {
+  const secretFile = path.join(directory, SESSION_SECRET_FILE);
+  try {
+    const existing = fs.readFileSync(secretFile, 'utf8').trim();
+    if (existing) return existing;
+  } catch {
+    // Not created yet
+  }
+  const secret = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(secretFile, secret, { mode: 0o600 });
+  log.info('Generated a session secret for the file room store.', { path: secretFile });
+  return secret;
+}
+
+function getSessionSecret(): string {
+  if (!global.housieSessionSecret) {
+    const storeDirectory = getRoomStoreDirectory();
+    if (process.env.HOUSIE_SESSION_SECRET) {
+      global.housieSessionSecret = process.env.HOUSIE_SESSION_SECRET;
+    } else if (storeDirectory) {
+      global.housieSessionSecret = loadOrCreatePersistedSecret(storeDirectory);
+    } else {
+      global.housieSessionSecret = crypto.randomBytes(32).toString('hex');
+      log.warn('HOUSIE_SESSION_SECRET is not set. Using a random secret; session tokens will not survive a restart.');
+    }
+  }
+  return global.housieSessionSecret;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(encodedPayload).digest('base64url');
+}
+
+// Tokens are `<base64url JSON payload>.<base64url HMAC-SHA256>` and bind one player or spectator in one room.
+export function issueSessionToken(identity: PlayerIdentity): string {
+  const payload = { r: identity.roomId, p: identity.playerId, k: identity.role || 'player', iat: Date.now() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+export function verifySessionToken(token: unknown): PlayerIdentity | undefined {
+  if (typeof token !== 'string') return undefined;
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    if (typeof payload?.r !== 'string' || typeof payload?.p !== 'string' || typeof payload?.iat !== 'number') return undefined;
+    if (Date.now() - payload.iat > SESSION_TOKEN_TTL) return undefined;
+    return { roomId: payload.r, playerId: payload.p, role: payload.k === 'spectator' ? 'spectator' : 'player' };
+  } catch {
+    return undefined;
+  }
+}
+
+// Socket.IO middleware: a token in the handshake (`auth.token`) binds the socket to that
+// identity up front. Sockets without one may still join as a new player via `joinRoom`.
+export function sessionAuthMiddleware(socket: Socket, next: (err?: Error) => void): void {
+  const token = socket.handshake.auth?.token;
+  if (token === undefined || token === null || token === '') return next();
+
+  const identity = verifySessionToken(token);
+  if (!identity) {
+    log.warn('Rejected connection with an invalid or expired session token.', { socketId: socket.id });
+    return next(new Error('Invalid session token.'));
+  }
+  bindSocketIdentity(socket, identity);
+  next();
+}
+
+export function bindSocketIdentity(socket: Socket, identity: PlayerIdentity): void {
+  socket.data.identity = identity;
+}
+
+export function unbindSocketIdentity(socket: Socket): void {
+  delete socket.data.identity;
+}
+
+export function getSocketIdentity(socket: Socket, roomId?: string): PlayerIdentity | undefined {
+  const identity = socket.data.identity as PlayerIdentity | undefined;
+  if (!identity || (roomId !== undefined && identity.roomId !== roomId)) return undefined;
+  return identity;
+}
@@ -1,118 +1,527 @@
 
+import crypto from 'crypto';
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import { 
   addPlayerToRoomStore, 
   startGameInRoomStore,
   claimPrizeStore,
   getRoomStateForClient,
-  getRoomStore // For checking room existence before joining client to socket room
+  getRoomStore, // For checking room existence before joining client to socket room
+  registerPlayerSocketStore,
+  unregisterPlayerSocketStore,
+  recoverRoomsStore,
+  startRoomSweeperStore,
+  pauseGameStore,
+  resumeGameStore,
+  setCallIntervalStore,
+  setCallModeStore,
+  hostCallNextNumberStore,
+  playAgainStore,
+  contributeEntropyStore,
+  getAuditBundleStore,
+  getRoomEventLogStore,
+  reconstructRoomStore,
+  addSpectatorStore,
+  resumeSpectatorSocketStore,
+  requestToPlayStore,
+  promoteSpectatorStore,
+  postChatMessageStore,
+  getChatHistoryStore,
+  sendReactionStore,
+  setParticipantMutedStore,
+  kickParticipantStore,
+  emitRoomStateToRoom
 } from '@/lib/server/game-store';
-import type { PrizeType, Room } from '@/types';
+import {
+  sessionAuthMiddleware,
+  verifySessionToken,
+  issueSessionToken,
+  bindSocketIdentity,
+  unbindSocketIdentity,
+  getSocketIdentity
+} from '@/lib/server/session-auth';
+import { validateEventPayload } from '@/lib/server/socket-validation';
+import type { RoomErrorCode } from '@/lib/server/socket-validation';
+import { createTokenBucketLimiter, getRateLimits } from '@/lib/server/rate-limiter';
+import { createLogger } from '@/lib/server/logger';
+import { incrementCounter } from '@/lib/server/metrics';
+import type { Room } from '@/types';
+import type { CallMode, PlayerIdentity, PrizeKey, ServerRoom } from '@/lib/server/server-types';
+
+const REPLAY_CHUNK_SIZE = 100; // Events per replayChunk message
+const log = createLogger('socket-handler');
 
 export function setupSocketListeners(io: SocketIOServer): void {
+  const recoveredGames = recoverRoomsStore();
+  if (recoveredGames > 0) {
+    log.info(`Resumed ${recoveredGames} in-progress game(s) from the room repository.`);
+  }
+  startRoomSweeperStore();
+
+  io.use(sessionAuthMiddleware);
+
+  const rateLimits = getRateLimits();
+  const rateLimiter = createTokenBucketLimiter();
+
   io.on('connection', (socket: Socket) => {
-    console.log(`Socket connected: ${socket.id}`);
+    incrementCounter('socket_connections');
+    log.info('Socket connected.', { socketId: socket.id });
+
+    const emitRoomError = (code: RoomErrorCode, message: string, extra: Record<string, unknown> = {}) => {
+      socket.emit('roomError', { code, message, ...extra });
+    };
+
+    // Registers a client event behind the rate limiter and payload validation. Limits apply per
+    // socket and, once the socket has an identity, per player across all of their sockets.
+    const onEvent = <T>(eventName: string, handler: (data: T) => void) => {
+      socket.on(eventName, (rawPayload: unknown) => {
+        const limit = rateLimits.byEvent[eventName] || rateLimits.fallback;
+        const identity = getSocketIdentity(socket);
+        const withinLimit = rateLimiter.take(`socket:${socket.id}:${eventName}`, limit) &&
+          (!identity || rateLimiter.take(`player:${identity.roomId}:${identity.playerId}:${eventName}`, limit));
+        if (!withinLimit) {
+          emitRoomError('RATE_LIMITED', `Too many "${eventName}" requests. Please slow down.`, { event: eventName });
+          incrementCounter('rate_limited', { event: eventName });
+          log.warn('Rate limited.', { event: eventName, socketId: socket.id, roomId: identity?.roomId, playerId: identity?.playerId });
+          return;
+        }
 
-    socket.on('joinRoom', async (data: { roomId: string; playerId: string; playerName: string; ticketsToBuy: number }) => {
-      const { roomId, playerId, playerName, ticketsToBuy } = data;
-      console.log(`Socket event "joinRoom": Player ${playerName} (${playerId}) attempting to join room ${roomId} with ${ticketsToBuy} tickets`);
+        // requestInitialRoomState used to take the bare room id; keep accepting that form.
+        const payload = eventName === 'requestInitialRoomState' && typeof rawPayload === 'string' ? { roomId: rawPayload } : rawPayload;
+        const problem = validateEventPayload(eventName, payload);
+        if (problem) {
+          emitRoomError('INVALID_PAYLOAD', `Invalid "${eventName}" payload: ${problem}`, { event: eventName });
+          incrementCounter('invalid_payloads', { event: eventName });
+          log.warn(`Rejected payload: ${problem}`, { event: eventName, socketId: socket.id });
+          return;
+        }
+        handler(payload as T);
+      });
+    };
+
+    // Resolves the verified identity bound to this socket for `roomId`, or reports the failure.
+    // Spectators are only let through for events that explicitly allow them.
+    const requireIdentity = (eventName: string, roomId: string, allowSpectator = false): PlayerIdentity | undefined => {
+      const identity = getSocketIdentity(socket, roomId);
+      if (!identity) {
+        emitRoomError('UNAUTHENTICATED', `Not authenticated for room ${roomId}. Join the room first.`);
+        log.info('Socket has no verified identity for the room.', { event: eventName, socketId: socket.id, roomId });
+        return undefined;
+      }
+      // A valid token is not enough: the participant must still hold a seat (kicked or removed ids do not).
+      const room = getRoomStore(roomId);
+      const isParticipant = identity.role === 'spectator'
+        ? !!room?.spectators?.some(s => s.id === identity.playerId)
+        : !!room?.players.some(p => p.id === identity.playerId);
+      if (!isParticipant) {
+        emitRoomError('UNAUTHENTICATED', `You are no longer in room ${roomId}. Join the room again.`);
+        log.info('Socket identity is no longer a participant in the room.', { event: eventName, socketId: socket.id, roomId, playerId: identity.playerId });
+        return undefined;
+      }
+      if (identity.role === 'spectator' && !allowSpectator) {
+        emitRoomError('FORBIDDEN', "Spectators cannot do that. Ask the host to promote you to a player.");
+        log.info('Spectator is not allowed to do this.', { event: eventName, socketId: socket.id, roomId, playerId: identity.playerId });
+        return undefined;
+      }
+      return identity;
+    };
+
+    onEvent('joinRoom', async (data: { roomId: string; playerId?: string; playerName: string; ticketsToBuy?: number; sessionToken?: string }) => {
+      const { roomId, ticketsToBuy, sessionToken } = data;
+      const playerName = data.playerName.trim();
+      log.info(`Player ${playerName} attempting to join with ${ticketsToBuy ?? 'default'} tickets.`, { event: 'joinRoom', socketId: socket.id, roomId });
       
-      const roomExists = !!getRoomStore(roomId);
-      if (!roomExists) {
-        socket.emit('roomError', { message: `Room ${roomId} not found. Cannot join socket room.`});
-        console.log(`Socket event "joinRoom": Room ${roomId} not found for player ${playerId}.`);
+      const room = getRoomStore(roomId);
+      if (!room) {
+        emitRoomError('ROOM_NOT_FOUND', `Room ${roomId} not found. Cannot join socket room.`);
+        log.info('Room not found.', { event: 'joinRoom', socketId: socket.id, roomId });
+        return;
+      }
+
+      // A verified token decides who this is; a payload playerId is only accepted for a seat nobody holds yet.
+      // Neither the identity nor the socket.io room is taken until the store accepts the join.
+      let identity = getSocketIdentity(socket, roomId);
+      if (sessionToken) {
+        identity = verifySessionToken(sessionToken);
+        if (!identity || identity.roomId !== roomId) {
+          emitRoomError('INVALID_SESSION', "Invalid or expired session token for this room.");
+          log.warn('Invalid session token for this room.', { event: 'joinRoom', socketId: socket.id, roomId });
+          return;
+        }
+      }
+      if (identity?.role === 'spectator') {
+        emitRoomError('FORBIDDEN', "You are spectating this room. Ask the host to promote you to a player.");
+        log.info('Spectator tried to join as a player.', { event: 'joinRoom', socketId: socket.id, roomId, playerId: identity.playerId });
         return;
       }
-      socket.join(roomId); // Join the socket.io room
+      const isNewIdentity = !identity;
+      if (!identity) {
+        const requestedPlayerId = data.playerId || crypto.randomUUID();
+        if (room.players.some(p => p.id === requestedPlayerId) || room.spectators?.some(s => s.id === requestedPlayerId)) {
+          emitRoomError('FORBIDDEN', "This player is already in the room. Rejoin with your session token.");
+          log.warn('Tried to take over an existing player without a token.', { event: 'joinRoom', socketId: socket.id, roomId, playerId: requestedPlayerId });
+          return;
+        }
+        identity = { roomId, playerId: requestedPlayerId };
+      }
+      const { playerId } = identity;
       
       const result = addPlayerToRoomStore(roomId, { id: playerId, name: playerName }, ticketsToBuy);
 
       if (result && 'error' in result) {
-        socket.emit('roomError', { message: result.error });
-        console.log(`Socket event "joinRoom": Error for player ${playerId} in room ${roomId}: ${result.error}`);
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Join rejected: ${result.error}`, { event: 'joinRoom', socketId: socket.id, roomId, playerId });
       } else {
+        bindSocketIdentity(socket, identity);
+        socket.join(roomId); // Join the socket.io room
+        registerPlayerSocketStore(identity, socket.id);
+        if (isNewIdentity) {
+          socket.emit('sessionToken', { roomId, playerId, token: issueSessionToken(identity) });
+        }
         const roomState = getRoomStateForClient(roomId);
         if (roomState) {
-            io.to(roomId).emit('roomUpdate', roomState);
-            console.log(`Socket event "joinRoom": Player ${playerName} (${playerId}) processed for room ${roomId}. Emitting roomUpdate.`);
+            emitRoomStateToRoom(io, roomId, 'roomUpdate');
+            log.info(`Player ${playerName} joined. Emitting roomUpdate.`, { event: 'joinRoom', socketId: socket.id, roomId, playerId });
         } else {
-            socket.emit('roomError', { message: "Failed to get room state after join."});
-            console.error(`Socket event "joinRoom": Failed to get room state for ${roomId} after player ${playerId} join.`);
+            emitRoomError('SERVER_ERROR', "Failed to get room state after join.");
+            log.error('Failed to get room state after join.', { event: 'joinRoom', socketId: socket.id, roomId, playerId });
         }
       }
     });
 
-    socket.on('startGame', (data: { roomId: string; hostId: string }) => {
-      const { roomId, hostId } = data;
-      console.log(`Socket event "startGame": Host ${hostId} attempting to start game in room ${roomId}`);
+    // Spectators watch without a seat or tickets, so they can join at any point, even mid-game.
+    onEvent('joinAsSpectator', (data: { roomId: string; spectatorName: string; sessionToken?: string }) => {
+      const { roomId, sessionToken } = data;
+      const spectatorName = data.spectatorName.trim();
+      log.info(`${spectatorName} attempting to spectate.`, { event: 'joinAsSpectator', socketId: socket.id, roomId });
+
+      const room = getRoomStore(roomId);
+      if (!room) {
+        emitRoomError('ROOM_NOT_FOUND', `Room ${roomId} not found.`);
+        log.info('Room not found.', { event: 'joinAsSpectator', socketId: socket.id, roomId });
+        return;
+      }
+
+      let identity: PlayerIdentity | undefined;
+      if (sessionToken) {
+        identity = verifySessionToken(sessionToken);
+        if (!identity || identity.roomId !== roomId || identity.role !== 'spectator') {
+          emitRoomError('INVALID_SESSION', "Invalid or expired spectator token for this room.");
+          log.warn('Invalid spectator token for this room.', { event: 'joinAsSpectator', socketId: socket.id, roomId });
+          return;
+        }
+      } else if (getSocketIdentity(socket, roomId)?.role === 'player') {
+        emitRoomError('FORBIDDEN', "You are already a player in this room.");
+        return;
+      }
+      const isNewIdentity = !identity;
+      identity ||= { roomId, playerId: crypto.randomUUID(), role: 'spectator' };
+
+      const result = addSpectatorStore(identity, spectatorName, socket.id);
+      if ('error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Spectating rejected: ${result.error}`, { event: 'joinAsSpectator', socketId: socket.id, roomId, playerId: identity.playerId });
+        return;
+      }
+      socket.join(roomId);
+      bindSocketIdentity(socket, identity);
+      if (isNewIdentity) {
+        socket.emit('sessionToken', { roomId, playerId: identity.playerId, role: 'spectator', token: issueSessionToken(identity) });
+      }
+      emitRoomStateToRoom(io, roomId, 'roomUpdate');
+      log.info(`Spectator ${spectatorName} joined. Emitting roomUpdate.`, { event: 'joinAsSpectator', socketId: socket.id, roomId, playerId: identity.playerId });
+    });
+
+    onEvent('requestToPlay', (data: { roomId: string }) => {
+      const { roomId } = data;
+      const identity = requireIdentity('requestToPlay', roomId, true);
+      if (!identity) return;
+      if (identity.role !== 'spectator') {
+        emitRoomError('FORBIDDEN', "You are already a player in this room.");
+        return;
+      }
+
+      const result = requestToPlayStore(identity);
+      if ('error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Request to play rejected: ${result.error}`, { event: 'requestToPlay', socketId: socket.id, roomId, playerId: identity.playerId });
+      } else {
+        emitRoomStateToRoom(io, roomId, 'roomUpdate');
+      }
+    });
+
+    onEvent('startGame', (data: { roomId: string }) => {
+      const { roomId } = data;
+      const identity = requireIdentity('startGame', roomId);
+      if (!identity) return;
+      const hostId = identity.playerId;
+      log.info('Host attempting to start the game.', { event: 'startGame', socketId: socket.id, roomId, playerId: hostId });
       
       // startGameInRoomStore starts the server-side interval for number calling
-      const result = startGameInRoomStore(roomId, hostId); 
+      const result = startGameInRoomStore(identity); 
       
       if (result && 'error' in result) {
-        socket.emit('roomError', { message: result.error });
-        console.log(`Socket event "startGame": Error starting game in room ${roomId}: ${result.error}`);
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Start rejected: ${result.error}`, { event: 'startGame', socketId: socket.id, roomId, playerId: hostId });
       } else {
         const roomState = getRoomStateForClient(roomId);
         if (roomState) {
-            io.to(roomId).emit('gameStarted', roomState); // Specific event for game start
-            io.to(roomId).emit('roomUpdate', roomState);  // General state update
-            console.log(`Socket event "startGame": Game started in room ${roomId}. Emitting gameStarted and roomUpdate.`);
+            emitRoomStateToRoom(io, roomId, 'gameStarted'); // Specific event for game start
+            emitRoomStateToRoom(io, roomId, 'roomUpdate');  // General state update
+            log.info('Game started. Emitting gameStarted and roomUpdate.', { event: 'startGame', socketId: socket.id, roomId, playerId: hostId });
         } else {
-             socket.emit('roomError', { message: "Failed to get room state after starting game."});
-             console.error(`Socket event "startGame": Failed to get room state for ${roomId} after game start by ${hostId}.`);
+             emitRoomError('SERVER_ERROR', "Failed to get room state after starting game.");
+             log.error('Failed to get room state after game start.', { event: 'startGame', socketId: socket.id, roomId, playerId: hostId });
         }
       }
     });
 
-    socket.on('claimPrize', (data: { roomId: string; playerId: string; prizeType: PrizeType; ticketIndex: number }) => {
-      const { roomId, playerId, prizeType, ticketIndex } = data;
-      console.log(`Socket event "claimPrize": Player ${playerId} attempting to claim ${prizeType} in room ${roomId} on ticket index ${ticketIndex}`);
+    onEvent('claimPrize', (data: { roomId: string; prizeType: PrizeKey; ticketIndex: number }) => {
+      const { roomId, prizeType, ticketIndex } = data;
+      const identity = requireIdentity('claimPrize', roomId);
+      if (!identity) return;
+      const playerId = identity.playerId;
+      log.info(`Attempting to claim ${prizeType}.`, { event: 'claimPrize', socketId: socket.id, roomId, playerId, prizeType, ticketIndex });
       
-      const result = claimPrizeStore(roomId, playerId, prizeType, ticketIndex);
+      const result = claimPrizeStore(identity, prizeType, ticketIndex);
       
       if (result && 'error' in result) {
-        socket.emit('roomError', { message: result.error, prizeType });
-        console.log(`Socket event "claimPrize": Error for ${playerId} claiming ${prizeType} in room ${roomId}: ${result.error}`);
+        emitRoomError('ACTION_REJECTED', result.error, { prizeType });
+        incrementCounter('claims', { outcome: result.bogey ? 'bogey' : 'rejected' });
+        log.info(`Claim rejected: ${result.error}`, { event: 'claimPrize', socketId: socket.id, roomId, playerId, prizeType, ticketIndex });
+        if (result.bogey) {
+          io.to(roomId).emit('bogey', result.bogey);
+          emitRoomStateToRoom(io, roomId, 'roomUpdate'); // Bogey summary and penalties changed
+        }
       } else {
         const roomState = getRoomStateForClient(roomId);
         if (roomState) {
-            io.to(roomId).emit('roomUpdate', roomState);
-            console.log(`Socket event "claimPrize": Processed for ${prizeType} by ${playerId} in room ${roomId}. Emitting roomUpdate.`);
+            emitRoomStateToRoom(io, roomId, 'roomUpdate');
+            log.info(`Claim for ${prizeType} processed. Emitting roomUpdate.`, { event: 'claimPrize', socketId: socket.id, roomId, playerId, prizeType });
             if (roomState.isGameOver) {
-                io.to(roomId).emit('gameOver', roomState);
-                console.log(`Socket event "claimPrize": Game over in room ${roomId} after claim by ${playerId}. Emitting gameOver.`);
+                emitRoomStateToRoom(io, roomId, 'gameOver');
+                log.info('Game over after claim. Emitting gameOver.', { event: 'claimPrize', socketId: socket.id, roomId, playerId });
             }
         } else {
-             socket.emit('roomError', { message: "Failed to get room state after prize claim."});
-             console.error(`Socket event "claimPrize": Failed to get room state for ${roomId} after prize claim by ${playerId}.`);
+             emitRoomError('SERVER_ERROR', "Failed to get room state after prize claim.");
+             log.error('Failed to get room state after prize claim.', { event: 'claimPrize', socketId: socket.id, roomId, playerId });
         }
       }
     });
     
-    socket.on('requestInitialRoomState', (roomId: string) => {
-      console.log(`Socket event "requestInitialRoomState": Socket ${socket.id} requesting state for room ${roomId}`);
-      const room = getRoomStore(roomId); 
-      if (room) {
-          socket.join(roomId); 
-          const roomState = getRoomStateForClient(roomId);
-          if (roomState) {
-              socket.emit('roomUpdate', roomState);
-              console.log(`Socket event "requestInitialRoomState": Sent initial room state for ${roomId} to socket ${socket.id}`);
-          } else {
-              socket.emit('roomError', { message: `Could not retrieve state for room ${roomId}.` });
-              console.error(`Socket event "requestInitialRoomState": Failed to get client state for existing room ${roomId} for socket ${socket.id}.`);
+    // Shared flow for host-only game controls: run the store action, then broadcast the new state.
+    const handleHostControl = (eventName: string, roomId: string, action: (host: PlayerIdentity) => ServerRoom | { error: string }) => {
+      const identity = requireIdentity(eventName, roomId);
+      if (!identity) return;
+      log.info('Host control.', { event: eventName, socketId: socket.id, roomId, playerId: identity.playerId });
+      const result = action(identity);
+
+      if (result && 'error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Host control rejected: ${result.error}`, { event: eventName, socketId: socket.id, roomId, playerId: identity.playerId });
+        return;
+      }
+      const roomState = getRoomStateForClient(roomId);
+      if (roomState) {
+        emitRoomStateToRoom(io, roomId, 'roomUpdate');
+        if (roomState.isGameOver) {
+          emitRoomStateToRoom(io, roomId, 'gameOver');
+        }
+      } else {
+        emitRoomError('SERVER_ERROR', `Failed to get room state after ${eventName}.`);
+        log.error(`Failed to get room state after ${eventName}.`, { event: eventName, socketId: socket.id, roomId });
+      }
+    };
+
+    onEvent('pauseGame', (data: { roomId: string }) => {
+      handleHostControl('pauseGame', data.roomId, host => pauseGameStore(host));
+    });
+
+    onEvent('resumeGame', (data: { roomId: string }) => {
+      handleHostControl('resumeGame', data.roomId, host => resumeGameStore(host));
+    });
+
+    onEvent('setCallInterval', (data: { roomId: string; intervalMs: number }) => {
+      handleHostControl('setCallInterval', data.roomId, host => setCallIntervalStore(host, data.intervalMs));
+    });
+
+    onEvent('setCallMode', (data: { roomId: string; callMode: CallMode }) => {
+      handleHostControl('setCallMode', data.roomId, host => setCallModeStore(host, data.callMode));
+    });
+
+    onEvent('callNextNumber', (data: { roomId: string }) => {
+      handleHostControl('callNextNumber', data.roomId, host => hostCallNextNumberStore(host));
+    });
+    
+    onEvent('playAgain', (data: { roomId: string }) => {
+      handleHostControl('playAgain', data.roomId, host => playAgainStore(host));
+    });
+
+    // The promoted spectator's sockets are re-bound as a player and handed a player token,
+    // after which they can buy tickets through `joinRoom` before the next round starts.
+    onEvent('promoteSpectator', (data: { roomId: string; spectatorId: string }) => {
+      const { roomId, spectatorId } = data;
+      handleHostControl('promoteSpectator', roomId, host => {
+        const result = promoteSpectatorStore(host, spectatorId);
+        if ('error' in result) return result;
+
+        const promoted: PlayerIdentity = { roomId, playerId: spectatorId, role: 'player' };
+        const token = issueSessionToken(promoted);
+        for (const socketId of io.sockets.adapter.rooms.get(roomId) || []) {
+          const spectatorSocket = io.sockets.sockets.get(socketId);
+          const socketIdentity = spectatorSocket && getSocketIdentity(spectatorSocket, roomId);
+          if (spectatorSocket && socketIdentity?.role === 'spectator' && socketIdentity.playerId === spectatorId) {
+            bindSocketIdentity(spectatorSocket, promoted);
+            spectatorSocket.emit('sessionToken', { roomId, playerId: spectatorId, role: 'player', token });
+          }
+        }
+        return result;
+      });
+    });
+
+    onEvent('muteParticipant', (data: { roomId: string; targetId: string; muted: boolean }) => {
+      handleHostControl('muteParticipant', data.roomId, host => setParticipantMutedStore(host, data.targetId, data.muted));
+    });
+
+    // The kicked participant's sockets lose their identity and leave the socket.io room.
+    onEvent('kickParticipant', (data: { roomId: string; targetId: string }) => {
+      const { roomId, targetId } = data;
+      handleHostControl('kickParticipant', roomId, host => {
+        const result = kickParticipantStore(host, targetId);
+        if ('error' in result) return result;
+
+        for (const socketId of Array.from(io.sockets.adapter.rooms.get(roomId) || [])) {
+          const targetSocket = io.sockets.sockets.get(socketId);
+          if (targetSocket && getSocketIdentity(targetSocket, roomId)?.playerId === targetId) {
+            targetSocket.emit('kicked', { roomId });
+            unbindSocketIdentity(targetSocket);
+            targetSocket.leave(roomId);
           }
+        }
+        return result;
+      });
+    });
+
+    onEvent('chatMessage', (data: { roomId: string; text: string }) => {
+      const { roomId, text } = data;
+      const identity = requireIdentity('chatMessage', roomId, true);
+      if (!identity) return;
+
+      const result = postChatMessageStore(identity, text);
+      if ('error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Chat message rejected: ${result.error}`, { event: 'chatMessage', socketId: socket.id, roomId, playerId: identity.playerId });
+      } else {
+        io.to(roomId).emit('chatMessage', { roomId, message: result });
+      }
+    });
+
+    onEvent('reaction', (data: { roomId: string; reaction: string }) => {
+      const { roomId, reaction } = data;
+      const identity = requireIdentity('reaction', roomId, true);
+      if (!identity) return;
+
+      const result = sendReactionStore(identity, reaction);
+      if ('error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
       } else {
-          socket.emit('roomError', { message: `Room ${roomId} not found.` });
-          console.log(`Socket event "requestInitialRoomState": Room ${roomId} not found for socket ${socket.id}.`);
+        io.to(roomId).emit('reaction', { roomId, ...result, at: new Date().toISOString() });
+      }
+    });
+
+    onEvent('contributeEntropy', (data: { roomId: string; entropy: string }) => {
+      const { roomId, entropy } = data;
+      const identity = requireIdentity('contributeEntropy', roomId);
+      if (!identity) return;
+
+      const result = contributeEntropyStore(identity, entropy);
+      if (result && 'error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+        log.info(`Entropy rejected: ${result.error}`, { event: 'contributeEntropy', socketId: socket.id, roomId, playerId: identity.playerId });
+      } else {
+        emitRoomStateToRoom(io, roomId, 'roomUpdate');
+      }
+    });
+
+    onEvent('requestAudit', (data: { roomId: string }) => {
+      const { roomId } = data;
+      log.info('Audit bundle requested.', { event: 'requestAudit', socketId: socket.id, roomId });
+      const result = getAuditBundleStore(roomId);
+      if ('error' in result) {
+        emitRoomError('ACTION_REJECTED', result.error);
+      } else {
+        socket.emit('auditBundle', result);
+      }
+    });
+    
+    onEvent('requestReplay', (data: { roomId: string; fromSeq?: number }) => {
+      const { roomId, fromSeq } = data;
+      if (!requireIdentity('requestReplay', roomId, true)) return;
+      log.info('Replay requested.', { event: 'requestReplay', socketId: socket.id, roomId, fromSeq: fromSeq || 0 });
+
+      const events = getRoomEventLogStore(roomId, Number(fromSeq) || 0);
+      if ('error' in events) {
+        emitRoomError('ACTION_REJECTED', events.error);
+        return;
+      }
+      const reconstructed = reconstructRoomStore(roomId);
+      for (let i = 0; i < events.length; i += REPLAY_CHUNK_SIZE) {
+        socket.emit('replayChunk', { roomId, events: events.slice(i, i + REPLAY_CHUNK_SIZE) });
+      }
+      socket.emit('replayEnd', { roomId, totalEvents: events.length, reconstructed });
+    });
+    
+    onEvent('requestInitialRoomState', ({ roomId }: { roomId: string }) => {
+      log.info('Initial room state requested.', { event: 'requestInitialRoomState', socketId: socket.id, roomId });
+      // Watching requires an identity; anonymous sockets must register through joinAsSpectator first.
+      const identity = getSocketIdentity(socket, roomId);
+      if (!identity) {
+        emitRoomError('UNAUTHENTICATED', `Not authenticated for room ${roomId}. Join as a player, or use joinAsSpectator to watch.`);
+        log.info('Socket has no verified identity for the room.', { event: 'requestInitialRoomState', socketId: socket.id, roomId });
+        return;
+      }
+      if (!getRoomStore(roomId)) {
+        emitRoomError('ROOM_NOT_FOUND', `Room ${roomId} not found.`);
+        log.info('Room not found.', { event: 'requestInitialRoomState', socketId: socket.id, roomId });
+        return;
+      }
+
+      // A socket that connected with a handshake token may only ever send this event, so it is
+      // registered here too: that marks the player online and keeps later broadcasts projected for them.
+      const registration = identity.role === 'spectator'
+        ? resumeSpectatorSocketStore(identity, socket.id)
+        : registerPlayerSocketStore(identity, socket.id);
+      if ('error' in registration) {
+        emitRoomError('ACTION_REJECTED', `${registration.error} Join the room again.`);
+        log.info(`Could not resume session: ${registration.error}`, { event: 'requestInitialRoomState', socketId: socket.id, roomId, playerId: identity.playerId });
+        return;
+      }
+
+      socket.join(roomId);
+      if (getRoomStateForClient(roomId, identity)) {
+        emitRoomStateToRoom(io, roomId, 'roomUpdate'); // Others see the participant come online
+        socket.emit('chatHistory', { roomId, messages: getChatHistoryStore(roomId) });
+        log.info('Sent initial room state.', { event: 'requestInitialRoomState', socketId: socket.id, roomId, playerId: identity.playerId });
+      } else {
+        emitRoomError('SERVER_ERROR', `Could not retrieve state for room ${roomId}.`);
+        log.error('Failed to get client state for an existing room.', { event: 'requestInitialRoomState', socketId: socket.id, roomId });
       }
     });
 
     socket.on('disconnect', () => {
-      console.log(`Socket disconnected: ${socket.id}`);
-      // TODO: Handle player leaving a room: remove from room.players, stop timer if host leaves and no one else, etc.
-      // This requires mapping socket.id to playerId and roomId(s), which is not yet implemented.
+      log.info('Socket disconnected.', { socketId: socket.id });
+      // The player keeps their seat for a grace period; the store handles removal and host handover if they don't return.
+      rateLimiter.forget(`socket:${socket.id}:`);
+      rateLimiter.prune();
+      const session = unregisterPlayerSocketStore(socket.id);
+      if (session) {
+        const roomState = getRoomStateForClient(session.roomId);
+        if (roomState) {
+          emitRoomStateToRoom(io, session.roomId, 'roomUpdate');
+          const participant = session.role === 'spectator' ? 'Spectator' : 'Player';
+          log.info(`${participant} marked offline. Emitting roomUpdate.`, { socketId: socket.id, roomId: session.roomId, playerId: session.playerId });
+        }
+      }
     });
   });
 }
@@ -0,0 +1,94 @@
+// Payload schemas for every client socket event. Handlers only ever see payloads that passed
+// here; anything else is answered with a `roomError` carrying one of the codes below.
+
+export type RoomErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'RATE_LIMITED'
+  | 'UNAUTHENTICATED'
+  | 'INVALID_SESSION'
+  | 'FORBIDDEN'
+  | 'ROOM_NOT_FOUND'
+  | 'ACTION_REJECTED' // The game rules refused the request; `message` says why
+  | 'SERVER_ERROR';
+
+export interface RoomErrorPayload {
+  code: RoomErrorCode;
+  message: string;
+  [extra: string]: unknown;
+}
+
+type FieldValidator = (value: unknown) => string | undefined; // Returns a problem, or undefined when valid
+
+export const MAX_TICKETS_PER_PLAYER_LIMIT = 24; // Upper bound on the per-room `maxTicketsPerPlayer` setting
+
+const string = (min: number, max: number, pattern?: RegExp): FieldValidator => value => {
+  if (typeof value !== 'string') return 'must be a string';
+  const length = value.trim().length;
+  if (length < min || value.length > max) return `must be ${min}-${max} characters`;
+  if (pattern && !pattern.test(value)) return 'has an invalid format';
+  return undefined;
+};
+
+const integer = (min: number, max: number): FieldValidator => value => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return 'must be an integer';
+  if (value < min || value > max) return `must be between ${min} and ${max}`;
+  return undefined;
+};
+
+const boolean: FieldValidator = value => (typeof value === 'boolean' ? undefined : 'must be true or false');
+
+const oneOf = (...allowed: string[]): FieldValidator => value =>
+  typeof value === 'string' && allowed.includes(value) ? undefined : `must be one of ${allowed.join(', ')}`;
+
+const optional = (validator: FieldValidator): FieldValidator => value =>
+  value === undefined || value === null ? undefined : validator(value);
+
+const roomId = string(1, 16, /^[A-Za-z0-9]+$/);
+const participantId = string(1, 64, /^[A-Za-z0-9_-]+$/);
+const displayName = string(1, 40);
+const sessionToken = string(1, 1024);
+
+const EVENT_SCHEMAS: Record<string, Record<string, FieldValidator>> = {
+  joinRoom: {
+    roomId,
+    playerId: optional(participantId),
+    playerName: displayName,
+    ticketsToBuy: optional(integer(1, MAX_TICKETS_PER_PLAYER_LIMIT)),
+    sessionToken: optional(sessionToken),
+  },
+  joinAsSpectator: { roomId, spectatorName: displayName, sessionToken: optional(sessionToken) },
+  requestToPlay: { roomId },
+  promoteSpectator: { roomId, spectatorId: participantId },
+  startGame: { roomId },
+  claimPrize: {
+    roomId,
+    prizeType: string(1, 64), // Built-in prize names may contain spaces; the store checks it against the room's active prizes
+    ticketIndex: integer(0, MAX_TICKETS_PER_PLAYER_LIMIT - 1),
+  },
+  pauseGame: { roomId },
+  resumeGame: { roomId },
+  setCallInterval: { roomId, intervalMs: integer(0, 24 * 60 * 60 * 1000) },
+  setCallMode: { roomId, callMode: oneOf('auto', 'manual') },
+  callNextNumber: { roomId },
+  playAgain: { roomId },
+  contributeEntropy: { roomId, entropy: string(1, 128) },
+  requestAudit: { roomId },
+  requestReplay: { roomId, fromSeq: optional(integer(0, Number.MAX_SAFE_INTEGER)) },
+  requestInitialRoomState: { roomId },
+  chatMessage: { roomId, text: string(1, 1000) }, // Trimmed and length-checked again by the chat filter
+  reaction: { roomId, reaction: string(1, 16) },
+  muteParticipant: { roomId, targetId: participantId, muted: boolean },
+  kickParticipant: { roomId, targetId: participantId },
+};
+
+export function validateEventPayload(eventName: string, payload: unknown): string | undefined {
+  const schema = EVENT_SCHEMAS[eventName];
+  if (!schema) return `Unknown event "${eventName}".`;
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return 'Payload must be an object.';
+
+  for (const [field, validator] of Object.entries(schema)) {
+    const problem = validator((payload as Record<string, unknown>)[field]);
+    if (problem) return `'${field}' ${problem}.`;
+  }
+  return undefined;
+}